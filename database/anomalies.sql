@@ -0,0 +1,19 @@
+-- Anomalies flagged by the daily visitor / loan aggregation jobs
+CREATE TABLE IF NOT EXISTS anomalies (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  metric VARCHAR(20) NOT NULL,           -- visitors | loans
+  day DATE NOT NULL,
+  value INT NOT NULL,                    -- observed count for the day
+  expected FLOAT NOT NULL,               -- mean of the same weekday in the baseline window
+  stddev FLOAT NOT NULL,
+  z_score FLOAT NOT NULL,
+  direction VARCHAR(10) NOT NULL,        -- drop | spike
+  acknowledged TINYINT(1) NOT NULL DEFAULT 0,
+  acknowledged_by VARCHAR(100) NULL,
+  acknowledged_at DATETIME NULL,
+  note VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_metric_day (metric, day),
+  INDEX idx_day (day)
+);
@@ -0,0 +1,46 @@
+-- Faculty / study program reference (dashboard DB). Managed via /api/faculties (admin).
+-- faculties.code       : two-digit fakultas code, as stored in visitor_count.institution
+--                        and found at digits 4-5 of a NIM (YY + jenjang + FF + ...)
+-- study_programs.code  : NIM digits starting at the fakultas code (e.g. '1522'); the longest
+--                        matching prefix wins when a NIM is parsed
+CREATE TABLE IF NOT EXISTS faculties (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  code VARCHAR(10) NOT NULL,
+  name VARCHAR(150) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_faculty_code (code)
+);
+
+CREATE TABLE IF NOT EXISTS study_programs (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  faculty_id INT NOT NULL,
+  code VARCHAR(10) NOT NULL,
+  name VARCHAR(150) NOT NULL,
+  jenjang VARCHAR(10) NULL,              -- S1 / S2 / S3 / D3 / Profesi ...
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_program_code (code),
+  INDEX idx_faculty (faculty_id),
+  CONSTRAINT fk_program_faculty FOREIGN KEY (faculty_id) REFERENCES faculties(id) ON DELETE CASCADE
+);
+
+-- Initial faculties (previously hardcoded in the service). The server seeds the same list
+-- (DEFAULT_FACULTIES in facultyService) when the table is empty, so running this file is optional.
+INSERT IGNORE INTO faculties (code, name) VALUES
+  ('01', 'Hukum'),
+  ('02', 'Pertanian'),
+  ('03', 'Kedokteran'),
+  ('04', 'MIPA'),
+  ('05', 'Ekonomi'),
+  ('06', 'Peternakan'),
+  ('07', 'Ilmu Budaya'),
+  ('08', 'Ilmu Sosial dan Ilmu Politik'),
+  ('09', 'Teknik'),
+  ('10', 'Farmasi'),
+  ('11', 'Teknologi Pertanian'),
+  ('12', 'Kesehatan Masyarakat'),
+  ('13', 'Keperawatan'),
+  ('14', 'Kedokteran Gigi'),
+  ('15', 'Teknologi Informasi'),
+  ('16', 'Pascasarjana');
@@ -0,0 +1,7 @@
+-- Tag column for synthetic rows (backfill script, see src/scripts/backfillSynthetic.ts).
+-- Run against the SLiMS database. NULL = real data; otherwise the batch label, so a
+-- backfill can be purged with: npm run backfill-synthetic -- --purge[=<batch>]
+ALTER TABLE visitor_count ADD COLUMN synthetic_batch VARCHAR(40) NULL DEFAULT NULL;
+ALTER TABLE visitor_count ADD INDEX idx_visitor_count_synthetic_batch (synthetic_batch);
+ALTER TABLE loan ADD COLUMN synthetic_batch VARCHAR(40) NULL DEFAULT NULL;
+ALTER TABLE loan ADD INDEX idx_loan_synthetic_batch (synthetic_batch);
@@ -26,6 +26,8 @@ redis.on('error', (err: unknown) => {
 
 export const CACHE_KEYS = {
   TODAY_COUNT: 'visitors:today:count',
+  TODAY_UNIQUE: 'visitors:today:unique',
+  UNIQUE_SUMMARY: 'visitors:unique:summary',
   WEEK_DAILY: 'visitors:week:daily',
   MONTHLY_TOTALS: 'visitors:month:totals',
   YEARLY_TOTALS: 'visitors:year:totals',
@@ -33,7 +35,23 @@ export const CACHE_KEYS = {
   TOP_YEAR_VISITORS: 'visitors:year:top',
   TOP_MONTH_FACULTIES: 'visitors:month:faculties:top',
   TOP_YEAR_FACULTIES: 'visitors:year:faculties:top',
-  SUMMARY: 'visitors:summary'
+  LEADERBOARD_PREFIX: 'visitors:leaderboard',
+  SUMMARY: 'visitors:summary',
+  RANGE_PREFIX: 'visitors:range',
+  HEATMAP: 'visitors:heatmap',
+  ROOMS_TODAY: 'visitors:rooms:today',
+  ROOMS_WEEK_DAILY: 'visitors:rooms:week:daily',
+  ROOMS_MONTHLY_TOTALS: 'visitors:rooms:month:totals',
+  ROOMS_TOP_MONTH: 'visitors:rooms:month:top',
+  ROOMS_TOP_YEAR: 'visitors:rooms:year:top',
+  ROOMS_TOP_MONTH_VISITORS: 'visitors:rooms:month:top:visitors',
+  COHORTS: 'visitors:cohorts',
+  NEW_RETURNING: 'visitors:new-returning',
+  NEW_RETURNING_FACULTIES: 'visitors:new-returning:faculties',
+  FORECAST_PREFIX: 'visitors:forecast',
+  VISITOR_COMPARE_PREFIX: 'visitors:compare',
+  VISITOR_SEGMENTS_PREFIX: 'visitors:segments',
+  CHECKIN_FEED_RECENT: 'visitors:feed:recent'
   ,BOOK_COLLECTION_STATS: 'books:stats:collection'
   ,BOOK_TOP_BORROWED: 'books:top:borrowed'
   ,BOOK_TOP_BORROWED_MONTH: 'books:top:borrowed:month'
@@ -41,6 +59,15 @@ export const CACHE_KEYS = {
   ,BOOK_TOP_BORROWERS_MONTH: 'books:top:borrowers:month'
   ,BOOK_TOP_BORROWERS_YEAR: 'books:top:borrowers:year'
   ,BOOK_SUMMARY: 'books:summary'
+  ,BOOK_COMPARE_PREFIX: 'books:compare'
+  ,BOOK_SEGMENTS_PREFIX: 'books:segments'
+  ,BOOK_LOANS_RANGE_PREFIX: 'books:loans:range'
+  ,BOOK_OVERDUE: 'books:overdue'
+  ,BOOKS_TODAY: 'books:today'
+  ,BOOK_COLLECTION_PREFIX: 'books:collection'
+  ,BOOK_SEARCH_PREFIX: 'books:search'
+  ,BOOK_DETAIL_PREFIX: 'books:detail'
+  ,FACULTY_REFERENCE: 'reference:faculties'
 } as const;
 
 export async function setJSON(key: string, value: unknown, ttlSeconds?: number) {
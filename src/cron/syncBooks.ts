@@ -1,7 +1,36 @@
 import cron from 'node-cron';
-import { redis, CACHE_KEYS } from '../cache/redisClient.js';
-import { getBookCollectionStats, getTopBorrowedBooks, getTopBorrowedBooksThisMonth, getTopBorrowedBooksThisYear, getTopBorrowersThisMonth, getTopBorrowersThisYear } from '../services/bookService.js';
-import { CRON_SCHEDULES } from './schedules.js';
+import { redis, CACHE_KEYS, setJSON } from '../cache/redisClient.js';
+import { getBookCollectionStats, getTopBorrowedBooks, getTopBorrowedBooksThisMonth, getTopBorrowedBooksThisYear, getTopBorrowersThisMonth, getTopBorrowersThisYear, getOverdueSummary, getCirculationToday } from '../services/bookService.js';
+import { runAnomalyScan } from '../services/anomalyService.js';
+import { getLoanSegments } from '../services/segmentService.js';
+import { getAllCollectionCompositions } from '../services/collectionService.js';
+import { CRON_SCHEDULES, CRON_TIMEZONE, REALTIME } from './schedules.js';
+import { emitBooksToday } from '../events/bookEvents.js';
+import { isLeader } from '../events/realtimeBus.js';
+import { formatMonth, currentYear } from '../utils/timezone.js';
+
+// Loans by angkatan / member type for the current month and year
+async function refreshLoanSegmentCaches() {
+  const [month, year] = await Promise.all([getLoanSegments('month'), getLoanSegments('year')]);
+  const metaWrap = (data: any) => ({ generated_at: new Date().toISOString(), ttl_seconds: 90000, data });
+  await setJSON(`${CACHE_KEYS.BOOK_SEGMENTS_PREFIX}:month`, metaWrap(month), 90000);
+  await setJSON(`${CACHE_KEYS.BOOK_SEGMENTS_PREFIX}:year`, metaWrap(year), 90000);
+}
+
+// Overdue summary as of today; the staff list (/api/books/overdue/loans) is always queried live
+async function refreshOverdueCache() {
+  const summary = await getOverdueSummary();
+  await setJSON(CACHE_KEYS.BOOK_OVERDUE, { generated_at: new Date().toISOString(), ttl_seconds: 90000, data: summary }, 90000);
+}
+
+// Collection composition (GMD, DDC, language, publish year, location, collection type)
+async function refreshCollectionCaches() {
+  const compositions = await getAllCollectionCompositions();
+  const generated_at = new Date().toISOString();
+  for (const c of compositions) {
+    await setJSON(`${CACHE_KEYS.BOOK_COLLECTION_PREFIX}:${c.dimension}`, { generated_at, ttl_seconds: 90000, data: c }, 90000);
+  }
+}
 
 // Registers a daily job to refresh book collection statistics cache.
 // Configurable via env BOOK_STATS_CRON (default: run at 00:10 every day)
@@ -22,12 +51,11 @@ export async function prewarmBookCaches() {
     await redis.set(CACHE_KEYS.BOOK_TOP_BORROWED_YEAR, JSON.stringify(topBorrowedYear), 'EX', 90000);
     await redis.set(CACHE_KEYS.BOOK_TOP_BORROWERS_MONTH, JSON.stringify(topBorrowersMonth), 'EX', 90000);
     await redis.set(CACHE_KEYS.BOOK_TOP_BORROWERS_YEAR, JSON.stringify(topBorrowersYear), 'EX', 90000);
-    const now = new Date();
     const summaryPayload = {
       generated_at: new Date().toISOString(),
       ttl_seconds: 90000,
-      period_month: `${now.getFullYear()}-${String(now.getMonth()+1).padStart(2,'0')}`,
-      year: now.getFullYear(),
+      period_month: formatMonth(),
+      year: currentYear(),
       collection: stats,
       top_borrowed_all: topBorrowedAll,
       top_borrowed_month: topBorrowedMonth,
@@ -36,6 +64,10 @@ export async function prewarmBookCaches() {
       top_borrowers_year: topBorrowersYear
     };
     await redis.set(CACHE_KEYS.BOOK_SUMMARY, JSON.stringify(summaryPayload), 'EX', 90000);
+    await refreshLoanSegmentCaches();
+    await refreshOverdueCache();
+    await refreshCollectionCaches();
+    await runAnomalyScan('loans');
     console.log(`[prewarm-books] done in ${Date.now() - start}ms`);
   } catch (e) {
     console.error('[prewarm-books] error', e);
@@ -44,9 +76,13 @@ export async function prewarmBookCaches() {
 
 export function registerBookStatsJob() {
   const schedule = CRON_SCHEDULES.BOOKS_AGGREGATION;
-  console.log(`[cron-books] Register schedule ${schedule}`);
+  console.log(`[cron-books] Register schedule ${schedule} (${CRON_TIMEZONE})`);
 
   cron.schedule(schedule, async () => {
+    if (!isLeader()) {
+      console.log('[cron-books] skipped (not realtime leader)');
+      return;
+    }
     const start = Date.now();
     console.log('[cron-books] ---- book stats aggregation start ----');
     try {
@@ -64,12 +100,11 @@ export function registerBookStatsJob() {
       await redis.set(CACHE_KEYS.BOOK_TOP_BORROWED_YEAR, JSON.stringify(topBorrowedYear), 'EX', 90000);
       await redis.set(CACHE_KEYS.BOOK_TOP_BORROWERS_MONTH, JSON.stringify(topBorrowersMonth), 'EX', 90000);
       await redis.set(CACHE_KEYS.BOOK_TOP_BORROWERS_YEAR, JSON.stringify(topBorrowersYear), 'EX', 90000);
-      const now = new Date();
       const summaryPayload = {
         generated_at: new Date().toISOString(),
         ttl_seconds: 90000,
-        period_month: `${now.getFullYear()}-${String(now.getMonth()+1).padStart(2,'0')}`,
-        year: now.getFullYear(),
+        period_month: formatMonth(),
+        year: currentYear(),
         collection: stats,
         top_borrowed_all: topBorrowedAll,
         top_borrowed_month: topBorrowedMonth,
@@ -78,11 +113,55 @@ export function registerBookStatsJob() {
         top_borrowers_year: topBorrowersYear
       };
       await redis.set(CACHE_KEYS.BOOK_SUMMARY, JSON.stringify(summaryPayload), 'EX', 90000);
+      await refreshLoanSegmentCaches();
+      await refreshOverdueCache();
+      await refreshCollectionCaches();
+      await runAnomalyScan('loans');
       console.log(`[cron-books] refreshed stats titles=${stats.total_unique_titles} items=${stats.total_items} all=${topBorrowedAll.length} monthBooks=${topBorrowedMonth.length} yearBooks=${topBorrowedYear.length} monthBorrowers=${topBorrowersMonth.length} yearBorrowers=${topBorrowersYear.length} in ${Date.now() - start}ms`);
     } catch (e) {
       console.error('[cron-books] error', e);
     } finally {
       console.log('[cron-books] ---- book stats aggregation end ----');
     }
-  });
+  }, { timezone: CRON_TIMEZONE });
 }
+
+let circulationLoopStarted = false;
+const LEADER_CHECK_MS = 2000;
+
+// Books counterpart of the visitor fast loop: loans / returns today and items on loan, cached
+// for /api/books/today and pushed on the books.today topic whenever a counter changes.
+export function registerBookCirculationLoop() {
+  if (circulationLoopStarted) return;
+  circulationLoopStarted = true;
+  const intervalMs = REALTIME.BOOK_FAST_INTERVAL_MS;
+  const ttl = Math.max(Math.ceil(intervalMs / 1000) * 2, 10);
+  let lastPushed: string | null = null;
+  console.log(`[cron-books-fast] Register loop (intervalMs=${intervalMs})`);
+
+  const loop = async () => {
+    // Followers only relay the leader's events (REALTIME_TRANSPORT=redis)
+    if (!isLeader()) {
+      lastPushed = null; // push the first reading after (re)gaining leadership
+      setTimeout(loop, LEADER_CHECK_MS);
+      return;
+    }
+    const start = Date.now();
+    try {
+      const counters = await getCirculationToday();
+      await setJSON(CACHE_KEYS.BOOKS_TODAY, { generated_at: new Date().toISOString(), ttl_seconds: ttl, data: counters }, ttl);
+      const snapshot = JSON.stringify(counters);
+      if (snapshot !== lastPushed) {
+        emitBooksToday(counters);
+        lastPushed = snapshot;
+        console.log(`[cron-books-fast] loans=${counters.loans_today} returns=${counters.returns_today} on_loan=${counters.on_loan} (${Date.now() - start}ms)`);
+      }
+    } catch (e) {
+      console.error('[cron-books-fast] error', e);
+    } finally {
+      setTimeout(loop, intervalMs);
+    }
+  };
+  void loop();
+}
+
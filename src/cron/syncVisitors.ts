@@ -1,11 +1,17 @@
 import cron from 'node-cron';
 import { CACHE_KEYS, setJSON, redis } from '../cache/redisClient.js';
-import { getTodayCount, getDailyCountsThisWeek, getMonthlyTotalsLastYear, getYearlyTotalsLast5Years, getCurrentMonthTopVisitors, getCurrentYearTopVisitors, getCurrentMonthTopFaculties, getCurrentYearTopFaculties } from '../services/visitorService.js';
-import { CRON_SCHEDULES, REALTIME } from './schedules.js';
-import { emitTodayVisitor } from '../events/visitorEvents.js';
+import { getTodayCount, getTodayUniqueCount, getUniqueVisitorSummary, getDailyCountsThisWeek, getMonthlyTotalsLastYear, getYearlyTotalsLast5Years, getMonthTopVisitors, getYearTopVisitors, getMonthTopFaculties, getYearTopFaculties, getVisitorHeatmap, getTodayCountsByRoom, getDailyCountsThisWeekByRoom, getMonthlyTotalsLastYearByRoom, getCurrentMonthTopRooms, getCurrentYearTopRooms, getCurrentMonthTopVisitorsByRoom, pollCheckinFeed } from '../services/visitorService.js';
+import { getVisitorForecasts } from '../services/forecastService.js';
+import { runAnomalyScan } from '../services/anomalyService.js';
+import { getRetentionCohorts, getNewVsReturning, getNewVsReturningByFaculty, defaultSplitRange } from '../services/cohortService.js';
+import { getVisitSegments } from '../services/segmentService.js';
+import { CRON_SCHEDULES, CRON_TIMEZONE, REALTIME } from './schedules.js';
+import { emitTodayVisitor, emitRoomTodayVisitors, emitCheckins } from '../events/visitorEvents.js';
+import { isLeader } from '../events/realtimeBus.js';
 
 let fastJobRunning = false;
 let fastLoopStarted = false;
+const LEADER_CHECK_MS = 2000;
 
 export function registerVisitorSyncJob() {
   const minIntervalMs = REALTIME.VISITOR_FAST_MIN_INTERVAL_MS; // minimum gap between starts
@@ -13,7 +19,7 @@ export function registerVisitorSyncJob() {
   const slowSchedule = CRON_SCHEDULES.VISITOR_AGGREGATION; // daily aggregation
 
   console.log(`[cron] Fast loop dynamic (minIntervalMs=${minIntervalMs}, bufferMs=${bufferMs})`);
-  console.log(`[cron] Register slow schedule ${slowSchedule}`);
+  console.log(`[cron] Register slow schedule ${slowSchedule} (${CRON_TIMEZONE})`);
 
   async function runFastLoop() {
     if (fastLoopStarted) return;
@@ -28,6 +34,11 @@ export function registerVisitorSyncJob() {
     let runs = 0;
 
     const loop = async () => {
+      // Followers only relay the leader's events (REALTIME_TRANSPORT=redis)
+      if (!isLeader()) {
+        setTimeout(loop, LEADER_CHECK_MS);
+        return;
+      }
       const now = Date.now();
       const sinceLast = now - lastStart;
   let effectiveMin = minIntervalMs;
@@ -53,13 +64,26 @@ export function registerVisitorSyncJob() {
         const today = await getTodayCount();
         const dur = Date.now() - t1;
         console.log(`[cron-fast] getTodayCount -> ${today} (${dur}ms)`);
+        const u1 = Date.now();
+        const unique = await getTodayUniqueCount();
+        console.log(`[cron-fast] getTodayUniqueCount -> ${unique} (${Date.now() - u1}ms)`);
         const w1 = Date.now();
   // TTL should scale with effectiveMin (not the original configured min) so cache hits remain high
   const ttlBase = (ADAPTIVE_ENABLED && runs > 5) ? effectiveMin : minIntervalMs;
   // Ensure at least 2s TTL; scale ~2x interval (if interval < 1000ms floor to seconds still =0 so clamp)
   const ttl = Math.max(Math.floor(ttlBase / 1000) * 2, 2);
   await redis.set(CACHE_KEYS.TODAY_COUNT, String(today), 'EX', ttl);
-        emitTodayVisitor(today);
+  await redis.set(CACHE_KEYS.TODAY_UNIQUE, String(unique), 'EX', ttl);
+        emitTodayVisitor(today, unique);
+        const r1 = Date.now();
+        const rooms = await getTodayCountsByRoom();
+        await setJSON(CACHE_KEYS.ROOMS_TODAY, { generated_at: new Date().toISOString(), ttl_seconds: ttl, data: rooms }, ttl);
+        emitRoomTodayVisitors(rooms);
+        console.log(`[cron-fast] rooms today -> ${rooms.length} rooms (${Date.now() - r1}ms)`);
+        const f1 = Date.now();
+        const checkins = await pollCheckinFeed();
+        if (checkins.length) emitCheckins(checkins);
+        console.log(`[cron-fast] checkin feed -> ${checkins.length} new (${Date.now() - f1}ms)`);
         console.log(`[cron-fast] wrote cache keys (${Date.now() - w1}ms) ttl=${ttl}s`);
         const total = Date.now() - start;
         console.log(`[cron-fast] total elapsed ${total}ms`);
@@ -84,17 +108,28 @@ export function registerVisitorSyncJob() {
 
   // Slow schedule: weekly + monthly + yearly aggregates (still cron-based)
   cron.schedule(slowSchedule, async () => {
+    if (!isLeader()) {
+      console.log('[cron-slow] skipped (not realtime leader)');
+      return;
+    }
     const start = Date.now();
     console.log('[cron-slow] ---- aggregation start ----');
     try {
-      const [weekDaily, monthly, yearly, topMonthly, topYearly, topMonthlyFaculties, topYearlyFaculties] = await Promise.all([
+      const [weekDaily, monthly, yearly, topMonthly, topYearly, topMonthlyFaculties, topYearlyFaculties, heatmap, roomsWeekDaily, roomsMonthly, roomsTopMonth, roomsTopYear, roomsTopMonthVisitors, uniqueSummary] = await Promise.all([
         getDailyCountsThisWeek(),
         getMonthlyTotalsLastYear(),
         getYearlyTotalsLast5Years(),
-        getCurrentMonthTopVisitors(10),
-        getCurrentYearTopVisitors(10),
-        getCurrentMonthTopFaculties(10),
-        getCurrentYearTopFaculties(10)
+        getMonthTopVisitors(),
+        getYearTopVisitors(),
+        getMonthTopFaculties(),
+        getYearTopFaculties(),
+        getVisitorHeatmap(),
+        getDailyCountsThisWeekByRoom(),
+        getMonthlyTotalsLastYearByRoom(),
+        getCurrentMonthTopRooms(10),
+        getCurrentYearTopRooms(10),
+        getCurrentMonthTopVisitorsByRoom(10),
+        getUniqueVisitorSummary()
       ]);
       const metaWrap = (data: any) => ({ generated_at: new Date().toISOString(), ttl_seconds: 90000, data });
       await setJSON(CACHE_KEYS.WEEK_DAILY, metaWrap(weekDaily), 90000);
@@ -104,26 +139,44 @@ export function registerVisitorSyncJob() {
       await setJSON(CACHE_KEYS.TOP_YEAR_VISITORS, metaWrap(topYearly), 90000);
       await setJSON(CACHE_KEYS.TOP_MONTH_FACULTIES, metaWrap(topMonthlyFaculties), 90000);
       await setJSON(CACHE_KEYS.TOP_YEAR_FACULTIES, metaWrap(topYearlyFaculties), 90000);
-  console.log(`[cron-slow] updated weekDaily=${weekDaily.length} monthly=${monthly.length} yearly=${yearly.length} topMonthly=${topMonthly.length} topYearly=${topYearly.length} topMonthlyFaculties=${topMonthlyFaculties.length} topYearlyFaculties=${topYearlyFaculties.length} in ${Date.now() - start}ms`);
+      await setJSON(CACHE_KEYS.HEATMAP, metaWrap(heatmap), 90000);
+      await setJSON(CACHE_KEYS.ROOMS_WEEK_DAILY, metaWrap(roomsWeekDaily), 90000);
+      await setJSON(CACHE_KEYS.ROOMS_MONTHLY_TOTALS, metaWrap(roomsMonthly), 90000);
+      await setJSON(CACHE_KEYS.ROOMS_TOP_MONTH, metaWrap(roomsTopMonth), 90000);
+      await setJSON(CACHE_KEYS.ROOMS_TOP_YEAR, metaWrap(roomsTopYear), 90000);
+      await setJSON(CACHE_KEYS.ROOMS_TOP_MONTH_VISITORS, metaWrap(roomsTopMonthVisitors), 90000);
+      await setJSON(CACHE_KEYS.UNIQUE_SUMMARY, metaWrap(uniqueSummary), 90000);
+      await refreshCohortCaches();
+      await refreshSegmentCaches();
+      await refreshForecastCaches();
+      await runAnomalyScan('visitors');
+  console.log(`[cron-slow] updated weekDaily=${weekDaily.length} monthly=${monthly.length} yearly=${yearly.length} topMonthly=${topMonthly.length} topYearly=${topYearly.length} topMonthlyFaculties=${topMonthlyFaculties.length} topYearlyFaculties=${topYearlyFaculties.length} heatmapDays=${heatmap.days} rooms=${roomsMonthly.length} in ${Date.now() - start}ms`);
     } catch (e) {
       console.error('[cron-slow] error', e);
     } finally {
       console.log('[cron-slow] ---- aggregation end ----');
     }
-  });
+  }, { timezone: CRON_TIMEZONE });
 }
 
 export async function prewarmVisitorCaches() {
   try {
     const start = Date.now();
-    const [weekDaily, monthly, yearly, topMonthly, topYearly, topMonthlyFaculties, topYearlyFaculties] = await Promise.all([
+    const [weekDaily, monthly, yearly, topMonthly, topYearly, topMonthlyFaculties, topYearlyFaculties, heatmap, roomsWeekDaily, roomsMonthly, roomsTopMonth, roomsTopYear, roomsTopMonthVisitors, uniqueSummary] = await Promise.all([
       getDailyCountsThisWeek(),
       getMonthlyTotalsLastYear(),
       getYearlyTotalsLast5Years(),
-      getCurrentMonthTopVisitors(10),
-      getCurrentYearTopVisitors(10),
-      getCurrentMonthTopFaculties(10),
-      getCurrentYearTopFaculties(10)
+      getMonthTopVisitors(),
+      getYearTopVisitors(),
+      getMonthTopFaculties(),
+      getYearTopFaculties(),
+      getVisitorHeatmap(),
+      getDailyCountsThisWeekByRoom(),
+      getMonthlyTotalsLastYearByRoom(),
+      getCurrentMonthTopRooms(10),
+      getCurrentYearTopRooms(10),
+      getCurrentMonthTopVisitorsByRoom(10),
+      getUniqueVisitorSummary()
     ]);
     const metaWrap = (data: any) => ({ generated_at: new Date().toISOString(), ttl_seconds: 90000, data });
     await setJSON(CACHE_KEYS.WEEK_DAILY, metaWrap(weekDaily), 90000);
@@ -133,8 +186,50 @@ export async function prewarmVisitorCaches() {
     await setJSON(CACHE_KEYS.TOP_YEAR_VISITORS, metaWrap(topYearly), 90000);
     await setJSON(CACHE_KEYS.TOP_MONTH_FACULTIES, metaWrap(topMonthlyFaculties), 90000);
     await setJSON(CACHE_KEYS.TOP_YEAR_FACULTIES, metaWrap(topYearlyFaculties), 90000);
+    await setJSON(CACHE_KEYS.HEATMAP, metaWrap(heatmap), 90000);
+    await setJSON(CACHE_KEYS.ROOMS_WEEK_DAILY, metaWrap(roomsWeekDaily), 90000);
+    await setJSON(CACHE_KEYS.ROOMS_MONTHLY_TOTALS, metaWrap(roomsMonthly), 90000);
+    await setJSON(CACHE_KEYS.ROOMS_TOP_MONTH, metaWrap(roomsTopMonth), 90000);
+    await setJSON(CACHE_KEYS.ROOMS_TOP_YEAR, metaWrap(roomsTopYear), 90000);
+    await setJSON(CACHE_KEYS.ROOMS_TOP_MONTH_VISITORS, metaWrap(roomsTopMonthVisitors), 90000);
+    await setJSON(CACHE_KEYS.UNIQUE_SUMMARY, metaWrap(uniqueSummary), 90000);
+    await refreshCohortCaches();
+    await refreshSegmentCaches();
+    await refreshForecastCaches();
+    await runAnomalyScan('visitors');
     console.log(`[prewarm-visitors] done in ${Date.now() - start}ms`);
   } catch (e) {
     console.error('[prewarm-visitors] error', e);
   }
 }
+
+// Cohort / retention defaults: 12 monthly cohorts, new-vs-returning per month for the
+// last 12 months, and the per-fakultas split of the current month.
+async function refreshCohortCaches() {
+  const [cohorts, newReturning, faculties] = await Promise.all([
+    getRetentionCohorts(12),
+    getNewVsReturning(defaultSplitRange(), 'month'),
+    getNewVsReturningByFaculty()
+  ]);
+  const metaWrap = (data: any) => ({ generated_at: new Date().toISOString(), ttl_seconds: 90000, data });
+  await setJSON(CACHE_KEYS.COHORTS, metaWrap(cohorts), 90000);
+  await setJSON(CACHE_KEYS.NEW_RETURNING, metaWrap(newReturning), 90000);
+  await setJSON(CACHE_KEYS.NEW_RETURNING_FACULTIES, metaWrap(faculties), 90000);
+}
+
+// Visits by angkatan / member type for the current month and year
+async function refreshSegmentCaches() {
+  const [month, year] = await Promise.all([getVisitSegments('month'), getVisitSegments('year')]);
+  const metaWrap = (data: any) => ({ generated_at: new Date().toISOString(), ttl_seconds: 90000, data });
+  await setJSON(`${CACHE_KEYS.VISITOR_SEGMENTS_PREFIX}:month`, metaWrap(month), 90000);
+  await setJSON(`${CACHE_KEYS.VISITOR_SEGMENTS_PREFIX}:year`, metaWrap(year), 90000);
+}
+
+// Forecasts for every horizon (7 / 30 days) from one history query, keyed per horizon.
+async function refreshForecastCaches() {
+  const forecasts = await getVisitorForecasts();
+  const generated_at = new Date().toISOString();
+  for (const f of forecasts) {
+    await setJSON(`${CACHE_KEYS.FORECAST_PREFIX}:${f.horizon}`, { generated_at, ttl_seconds: 90000, data: f }, 90000);
+  }
+}
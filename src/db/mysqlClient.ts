@@ -1,5 +1,6 @@
 import mysql from 'mysql2/promise';
 import dotenv from 'dotenv';
+import { sqlTimezoneOffset } from '../utils/timezone.js';
 
 dotenv.config();
 
@@ -11,7 +12,9 @@ const pool = mysql.createPool({
   database: process.env.MYSQL_DATABASE || 'slims',
   waitForConnections: true,
   connectionLimit: Number(process.env.MYSQL_POOL_LIMIT || 10),
-  timezone: 'Z',
+  // SLiMS DATETIMEs are library wall-clock time: read/write them with the library offset
+  // (fixed at startup, see sqlTimezoneOffset)
+  timezone: sqlTimezoneOffset(),
 });
 
 export async function pingMySQL() {
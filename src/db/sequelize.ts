@@ -1,5 +1,6 @@
 import { Sequelize } from 'sequelize';
 import dotenv from 'dotenv';
+import { sqlTimezoneOffset } from '../utils/timezone.js';
 
 dotenv.config();
 
@@ -15,6 +16,7 @@ export const sequelize = new Sequelize(MYSQL_DATABASE, MYSQL_USER, MYSQL_PASSWOR
   port: Number(MYSQL_PORT),
   dialect: 'mysql',
   logging: false, // set to console.log for debugging
+  timezone: sqlTimezoneOffset(), // same as mysqlClient.ts: SLiMS stores library wall-clock time
   pool: {
     max: 10,
     min: 0,
@@ -0,0 +1,11 @@
+import { publishStreamEvent } from './streamHub.js';
+import type { CirculationToday } from '../services/bookService.js';
+
+export interface BookTodayUpdate extends CirculationToday {
+  generated_at: string; // ISO timestamp when emitted
+}
+
+export function emitBooksToday(counters: CirculationToday) {
+  const payload: BookTodayUpdate = { ...counters, generated_at: new Date().toISOString() };
+  void publishStreamEvent('books.today', payload);
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import os from 'os';
+import { redis } from '../cache/redisClient.js';
+
+// Cross-instance transport for real-time events.
+//   REALTIME_TRANSPORT=local (default) -> single instance, events stay in-process
+//   REALTIME_TRANSPORT=redis           -> events are published on a Redis channel and every
+//                                         instance relays them to its own SSE clients; only the
+//                                         elected leader runs the fast loop / daily jobs.
+// Leader election is a Redis lease (SET NX PX) renewed every REALTIME_LEADER_TTL_MS / 3.
+
+export const REALTIME_TRANSPORT = (process.env.REALTIME_TRANSPORT || 'local').toLowerCase() === 'redis' ? 'redis' : 'local';
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const CHANNEL = 'realtime:events';
+const LEADER_KEY = 'realtime:leader';
+const LEADER_TTL_MS = Number(process.env.REALTIME_LEADER_TTL_MS || 10000);
+
+// Extend / release the lease only while we still own it
+const RENEW_LUA = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE_LUA = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+export interface RealtimeMessage {
+  id: number;     // stream event id (shared counter)
+  topic: string;
+  payload: unknown;
+  origin: string; // publishing instance
+}
+
+let subscriber: any = null;
+let electionTimer: NodeJS.Timeout | null = null;
+let leader = REALTIME_TRANSPORT === 'local';
+let localFallback = false; // redis mode, but the subscription failed (see startRealtimeBus)
+
+// False in redis mode after a failed start: events are then delivered in-process only
+export function isDistributed() {
+  return REALTIME_TRANSPORT === 'redis' && !localFallback;
+}
+
+export function isLocalFallback() {
+  return localFallback;
+}
+
+// Always true in local mode
+export function isLeader() {
+  return leader;
+}
+
+async function electionTick() {
+  try {
+    if (leader) {
+      const renewed = await redis.eval(RENEW_LUA, 1, LEADER_KEY, INSTANCE_ID, LEADER_TTL_MS);
+      if (!Number(renewed)) {
+        leader = false;
+        console.warn(`[realtime] ${INSTANCE_ID} lost leadership`);
+      }
+    } else {
+      const acquired = await redis.set(LEADER_KEY, INSTANCE_ID, 'PX', LEADER_TTL_MS, 'NX');
+      if (acquired === 'OK') {
+        leader = true;
+        console.log(`[realtime] ${INSTANCE_ID} elected leader`);
+      }
+    }
+  } catch (e) {
+    // Without Redis the lease cannot be proven; step down so a healthy instance can take over
+    if (leader) console.error('[realtime] leader renew failed, stepping down', e);
+    leader = false;
+  }
+}
+
+// Subscribes to the shared channel and starts the election (no-op in local mode).
+export async function startRealtimeBus(onMessage: (message: RealtimeMessage) => void) {
+  if (!isDistributed()) return;
+  // Election runs even if the subscription below fails, so some instance keeps polling
+  await electionTick();
+  electionTimer = setInterval(() => { void electionTick(); }, Math.max(Math.floor(LEADER_TTL_MS / 3), 500));
+  electionTimer.unref();
+  subscriber = redis.duplicate();
+  subscriber.on('message', (_channel: string, raw: string) => {
+    try {
+      onMessage(JSON.parse(raw) as RealtimeMessage);
+    } catch (e) {
+      console.warn('[realtime] dropped malformed message');
+    }
+  });
+  try {
+    await subscriber.subscribe(CHANNEL);
+  } catch (e) {
+    // Without the subscription this instance would publish events it never receives. Resign
+    // the lease so a healthy instance polls MySQL, and deliver own events in-process only.
+    await stopRealtimeBus();
+    localFallback = true;
+    throw e;
+  }
+  console.log(`[realtime] redis transport started instance=${INSTANCE_ID} leader=${leader}`);
+}
+
+export async function publishRealtime(event: Omit<RealtimeMessage, 'origin'>) {
+  const message: RealtimeMessage = { ...event, origin: INSTANCE_ID };
+  await redis.publish(CHANNEL, JSON.stringify(message));
+}
+
+export async function stopRealtimeBus() {
+  if (electionTimer) clearInterval(electionTimer);
+  electionTimer = null;
+  if (leader && isDistributed()) {
+    try { await redis.eval(RELEASE_LUA, 1, LEADER_KEY, INSTANCE_ID); } catch (_) { /* lease expires anyway */ }
+    leader = false;
+  }
+  if (subscriber) {
+    subscriber.disconnect();
+    subscriber = null;
+  }
+}
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+import { redis } from '../cache/redisClient.js';
+import { isDistributed, publishRealtime, startRealtimeBus } from './realtimeBus.js';
+
+// Every real-time update goes through here: it gets a numeric event id, is kept in a bounded
+// per-topic replay buffer (so SSE clients can resume with Last-Event-ID) and is emitted on
+// `streamEvents` under its topic name. In redis mode ids come from a shared counter and the
+// event is delivered through the pub/sub relay, so all instances hold the same ids. When the
+// counter is unavailable the event is dropped rather than numbered locally: a local id would
+// come from another sequence and break Last-Event-ID replay (clients catch up from the
+// topic snapshot on the next update or reconnect). An instance whose relay failed to start
+// receives no shared ids at all, so it falls back to local ids and delivery.
+
+export const STREAM_TOPICS = ['visitors.today', 'visitors.rooms', 'visitors.checkins', 'books.today', 'events.upcoming'] as const;
+export type StreamTopic = typeof STREAM_TOPICS[number];
+
+export interface StreamEvent {
+  id: number;
+  topic: StreamTopic;
+  payload: unknown;
+}
+
+const REPLAY_PER_TOPIC = Math.max(Number(process.env.SSE_REPLAY_BUFFER || 200), 1);
+const SEQ_KEY = 'realtime:event_seq';
+
+// listeners receive (payload, id)
+export const streamEvents = new EventEmitter();
+// Allow unlimited listeners (SSE clients) without warning
+streamEvents.setMaxListeners(0);
+
+// Local mode only: ids start at the boot time so they keep increasing across restarts
+let localSeq = Date.now();
+let lastId = 0;
+let startedAfter: number | null = null; // events up to this id were never seen by this instance
+const buffers = new Map<StreamTopic, StreamEvent[]>();
+const evictedUpTo = new Map<StreamTopic, number>();
+
+export function isStreamTopic(topic: string): topic is StreamTopic {
+  return (STREAM_TOPICS as readonly string[]).includes(topic);
+}
+
+function record(event: StreamEvent) {
+  if (startedAfter === null) startedAfter = event.id - 1;
+  lastId = Math.max(lastId, event.id);
+  const buffer = buffers.get(event.topic) || [];
+  buffer.push(event);
+  if (buffer.length > REPLAY_PER_TOPIC) evictedUpTo.set(event.topic, buffer.shift()!.id);
+  buffers.set(event.topic, buffer);
+}
+
+function deliver(event: StreamEvent) {
+  record(event);
+  streamEvents.emit(event.topic, event.payload, event.id);
+}
+
+export async function publishStreamEvent(topic: StreamTopic, payload: unknown) {
+  if (!isDistributed()) {
+    deliver({ id: ++localSeq, topic, payload });
+    return;
+  }
+  let id: number;
+  try {
+    id = Number(await redis.incr(SEQ_KEY));
+  } catch (e) {
+    console.error(`[stream] event id for ${topic} failed, event dropped`, e);
+    return;
+  }
+  try {
+    await publishRealtime({ id, topic, payload });
+  } catch (e) {
+    console.error(`[stream] publish ${topic} failed, delivering locally`, e);
+    deliver({ id, topic, payload });
+  }
+}
+
+// Relays events published by any instance to this instance's listeners
+export function startStreamRelay() {
+  return startRealtimeBus(message => {
+    if (!isStreamTopic(message.topic)) return;
+    deliver({ id: message.id, topic: message.topic, payload: message.payload });
+  });
+}
+
+export function lastStreamEventId(): number | null {
+  return lastId || null;
+}
+
+// Buffered events of `topics` after `afterId`, oldest first. null when the buffer cannot
+// cover the gap (id older than the buffer, or from before this instance started) and the
+// client has to start again from a snapshot.
+export function replayStreamEvents(afterId: number, topics: readonly StreamTopic[]): StreamEvent[] | null {
+  if (startedAfter === null || afterId < startedAfter || afterId > lastId) return null;
+  if (topics.some(t => (evictedUpTo.get(t) || 0) > afterId)) return null;
+  return topics
+    .flatMap(t => (buffers.get(t) || []).filter(e => e.id > afterId))
+    .sort((a, b) => a.id - b.id);
+}
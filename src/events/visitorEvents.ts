@@ -1,15 +1,38 @@
-import { EventEmitter } from 'events';
+import { publishStreamEvent } from './streamHub.js';
 
 export interface TodayVisitorUpdate {
   total: number;
+  unique?: number; // distinct members today (Redis HyperLogLog estimate)
   generated_at: string; // ISO timestamp when emitted
 }
 
-export const visitorEvents = new EventEmitter();
-// Allow unlimited listeners (SSE clients) without warning
-visitorEvents.setMaxListeners(0);
-
-export function emitTodayVisitor(total: number) {
+export function emitTodayVisitor(total: number, unique?: number) {
   const payload: TodayVisitorUpdate = { total, generated_at: new Date().toISOString() };
-  visitorEvents.emit('today', payload);
+  if (unique !== undefined) payload.unique = unique;
+  void publishStreamEvent('visitors.today', payload);
+}
+
+export interface RoomTodayUpdate {
+  rooms: Array<{ room_code: string | null; total: number }>;
+  generated_at: string;
+}
+
+export function emitRoomTodayVisitors(rooms: RoomTodayUpdate['rooms']) {
+  const payload: RoomTodayUpdate = { rooms, generated_at: new Date().toISOString() };
+  void publishStreamEvent('visitors.rooms', payload);
+}
+
+// Single check-in for the live feed (lobby ticker). No member_id; the name is masked.
+export interface CheckinEvent {
+  id: number;               // visitor_id
+  at: string;               // ISO timestamp of the check-in
+  time: string;             // HH:MM in library time
+  room_code: string | null;
+  institution: string | null;
+  fakultas: string | null;
+  name: string | null;      // masked, e.g. "A**** R****"
+}
+
+export function emitCheckins(events: CheckinEvent[]) {
+  for (const e of events) void publishStreamEvent('visitors.checkins', e);
 }
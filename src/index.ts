@@ -1,6 +1,7 @@
 import Fastify from 'fastify';
 import path from 'path';
 import multipart from '@fastify/multipart';
+import websocket from '@fastify/websocket';
 import fastifyStatic from '@fastify/static';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
@@ -9,23 +10,46 @@ import swaggerUI from '@fastify/swagger-ui';
 import fs from 'fs';
 import dotenv from 'dotenv';
 import { visitorRoutes } from './routes/visitor.js';
+import { cohortRoutes } from './routes/cohort.js';
+import { segmentRoutes } from './routes/segment.js';
+import { streamRoutes } from './routes/stream.js';
 import { bookRoutes } from './routes/book.js';
 import { healthRoutes } from './routes/health.js';
 import simpleAuthRoutes from './routes/simpleAuth.js';
 import eventRoutes from './routes/event.js';
 import roomFacilityRoutes from './routes/roomFacility.js';
-import { registerBookStatsJob, prewarmBookCaches } from './cron/syncBooks.js';
+import anomalyRoutes from './routes/anomaly.js';
+import facultyRoutes from './routes/faculty.js';
+import { registerBookStatsJob, registerBookCirculationLoop, prewarmBookCaches } from './cron/syncBooks.js';
 import { pingMySQL } from './db/mysqlClient.js';
 import { registerVisitorSyncJob, prewarmVisitorCaches } from './cron/syncVisitors.js';
 // import { registerAuthCleanupJob } from './cron/authCleanup.js';
 import { initSequelize } from './db/sequelize.js';
 import { initAuthSequelize } from './db/authSequelize.js';
+import { loadFacultyReference, startFacultyReferenceRefresh } from './services/facultyService.js';
+import { redactUrl } from './utils/redact.js';
+import { SYNTHETIC_DATA_MODE } from './services/syntheticData.js';
 import './cache/redisClient.js';
+import { startStreamRelay } from './events/streamHub.js';
+import { stopRealtimeBus } from './events/realtimeBus.js';
 
 dotenv.config();
 
 async function start() {
-  const fastify = Fastify({ logger: true });
+  const fastify = Fastify({
+    logger: {
+      serializers: {
+        // Same fields as the default request serializer, with ?token= (WebSocket auth) redacted
+        req: req => ({
+          method: req.method,
+          url: redactUrl(req.url),
+          hostname: req.hostname,
+          remoteAddress: req.ip,
+          ...(req.socket?.remotePort !== undefined && { remotePort: req.socket.remotePort })
+        })
+      }
+    }
+  });
   try {
     await pingMySQL();
   } catch (e) {
@@ -33,6 +57,7 @@ async function start() {
   }
   await fastify.register(cors, { origin: '*' });
   await fastify.register(helmet);
+  await fastify.register(websocket);
   await fastify.register(swagger, {
     openapi: {
       info: {
@@ -67,6 +92,9 @@ async function start() {
   (fastify as any).startTime = Date.now();
 
   await fastify.register(visitorRoutes);
+  await fastify.register(cohortRoutes);
+  await fastify.register(segmentRoutes);
+  await fastify.register(streamRoutes);
   await fastify.register(bookRoutes);
   await fastify.register(healthRoutes);
   // file upload + static serving
@@ -94,6 +122,8 @@ async function start() {
   await fastify.register(simpleAuthRoutes, { prefix: '/api/auth' });
   await fastify.register(eventRoutes);
   await fastify.register(roomFacilityRoutes);
+  await fastify.register(anomalyRoutes);
+  await fastify.register(facultyRoutes);
 
   // Prewarm caches before starting real-time loop & cron schedules
   // Initialize Sequelize (with simple retry) before prewarm caches using ORM
@@ -123,13 +153,31 @@ async function start() {
     fastify.log.error({ err: e }, 'Auth database init failed - auth endpoints may not work');
   }
 
+  // Faculty reference must be in memory before aggregates resolve fakultas names
+  await loadFacultyReference();
+  startFacultyReferenceRefresh();
+
+  // Demo / sandbox instances must never be mistaken for production numbers
+  if (SYNTHETIC_DATA_MODE !== 'exclude') {
+    fastify.log.warn(`SYNTHETIC_DATA_MODE=${SYNTHETIC_DATA_MODE}: visitor and loan aggregates ${SYNTHETIC_DATA_MODE === 'only' ? 'show only' : 'include'} synthetic rows`);
+  }
+
   await Promise.allSettled([
     prewarmVisitorCaches(),
     prewarmBookCaches()
   ]);
 
+  // Cross-instance event relay + leader election (REALTIME_TRANSPORT=redis) before the loops start
+  try {
+    await startStreamRelay();
+  } catch (e) {
+    fastify.log.error({ err: e }, 'Realtime bus start failed - left the leader election, events from this instance are delivered locally only');
+  }
+  fastify.addHook('onClose', async () => { await stopRealtimeBus(); });
+
   registerVisitorSyncJob();
   registerBookStatsJob();
+  registerBookCirculationLoop();
   // registerAuthCleanupJob();
 
   const port = Number(process.env.PORT || 3000);
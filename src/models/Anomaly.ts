@@ -0,0 +1,71 @@
+import { DataTypes, Model, type Optional } from 'sequelize';
+import { authSequelize } from '../db/authSequelize.js';
+
+export type AnomalyMetric = 'visitors' | 'loans';
+export type AnomalyDirection = 'drop' | 'spike';
+
+export interface AnomalyAttributes {
+  id: number;
+  metric: AnomalyMetric;
+  day: string;              // YYYY-MM-DD
+  value: number;            // observed count
+  expected: number;         // same-weekday baseline mean
+  stddev: number;
+  z_score: number;
+  direction: AnomalyDirection;
+  acknowledged: boolean;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+  note: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AnomalyCreationAttributes extends Optional<AnomalyAttributes, 'id' | 'acknowledged' | 'acknowledged_by' | 'acknowledged_at' | 'note' | 'created_at' | 'updated_at'> {}
+
+export class Anomaly extends Model<AnomalyAttributes, AnomalyCreationAttributes> implements AnomalyAttributes {
+  declare id: number;
+  declare metric: AnomalyMetric;
+  declare day: string;
+  declare value: number;
+  declare expected: number;
+  declare stddev: number;
+  declare z_score: number;
+  declare direction: AnomalyDirection;
+  declare acknowledged: boolean;
+  declare acknowledged_by: string | null;
+  declare acknowledged_at: Date | null;
+  declare note: string | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+Anomaly.init(
+  {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    metric: { type: DataTypes.STRING(20), allowNull: false },
+    day: { type: DataTypes.DATEONLY, allowNull: false },
+    value: { type: DataTypes.INTEGER, allowNull: false },
+    expected: { type: DataTypes.FLOAT, allowNull: false },
+    stddev: { type: DataTypes.FLOAT, allowNull: false },
+    z_score: { type: DataTypes.FLOAT, allowNull: false },
+    direction: { type: DataTypes.STRING(10), allowNull: false },
+    acknowledged: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+    acknowledged_by: { type: DataTypes.STRING(100), allowNull: true },
+    acknowledged_at: { type: DataTypes.DATE, allowNull: true },
+    note: { type: DataTypes.STRING(255), allowNull: true },
+    created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW }
+  },
+  {
+    sequelize: authSequelize,
+    tableName: 'anomalies',
+    timestamps: false,
+    indexes: [
+      { unique: true, fields: ['metric', 'day'] },
+      { fields: ['day'] }
+    ]
+  }
+);
+
+export default Anomaly;
@@ -0,0 +1,37 @@
+import { DataTypes, Model, type Optional } from 'sequelize';
+import { authSequelize } from '../db/authSequelize.js';
+
+export interface FacultyAttributes {
+  id: number;
+  code: string;   // two-digit fakultas code (visitor_count.institution, NIM digits 4-5)
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface FacultyCreationAttributes extends Optional<FacultyAttributes, 'id' | 'created_at' | 'updated_at'> {}
+
+export class Faculty extends Model<FacultyAttributes, FacultyCreationAttributes> implements FacultyAttributes {
+  declare id: number;
+  declare code: string;
+  declare name: string;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+Faculty.init(
+  {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    code: { type: DataTypes.STRING(10), allowNull: false, unique: true },
+    name: { type: DataTypes.STRING(150), allowNull: false },
+    created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW }
+  },
+  {
+    sequelize: authSequelize,
+    tableName: 'faculties',
+    timestamps: false
+  }
+);
+
+export default Faculty;
@@ -0,0 +1,48 @@
+import { DataTypes, Model, type Optional } from 'sequelize';
+import { authSequelize } from '../db/authSequelize.js';
+import { Faculty } from './Faculty.js';
+
+export interface StudyProgramAttributes {
+  id: number;
+  faculty_id: number;
+  code: string;           // NIM digits starting at the fakultas code, e.g. '1522'
+  name: string;
+  jenjang: string | null; // S1 / S2 / D3 ...
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface StudyProgramCreationAttributes extends Optional<StudyProgramAttributes, 'id' | 'jenjang' | 'created_at' | 'updated_at'> {}
+
+export class StudyProgram extends Model<StudyProgramAttributes, StudyProgramCreationAttributes> implements StudyProgramAttributes {
+  declare id: number;
+  declare faculty_id: number;
+  declare code: string;
+  declare name: string;
+  declare jenjang: string | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+StudyProgram.init(
+  {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    faculty_id: { type: DataTypes.INTEGER, allowNull: false },
+    code: { type: DataTypes.STRING(10), allowNull: false, unique: true },
+    name: { type: DataTypes.STRING(150), allowNull: false },
+    jenjang: { type: DataTypes.STRING(10), allowNull: true },
+    created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+    updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW }
+  },
+  {
+    sequelize: authSequelize,
+    tableName: 'study_programs',
+    timestamps: false,
+    indexes: [ { fields: ['faculty_id'] } ]
+  }
+);
+
+Faculty.hasMany(StudyProgram, { foreignKey: 'faculty_id', as: 'programs', onDelete: 'CASCADE' });
+StudyProgram.belongsTo(Faculty, { foreignKey: 'faculty_id', as: 'faculty' });
+
+export default StudyProgram;
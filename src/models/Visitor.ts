@@ -9,10 +9,11 @@ interface VisitorAttributes {
   institution: string | null;
   room_code: string | null;
   checkin_date: Date; // store as Date
+  synthetic_batch: string | null; // simulator / backfill label, NULL for real check-ins
 }
 
 // Creation attributes (PK is auto increment)
-interface VisitorCreationAttributes extends Optional<VisitorAttributes, 'visitor_id'> {}
+interface VisitorCreationAttributes extends Optional<VisitorAttributes, 'visitor_id' | 'synthetic_batch'> {}
 
 export class Visitor extends Model<VisitorAttributes, VisitorCreationAttributes> implements VisitorAttributes {
   declare visitor_id: number;
@@ -21,6 +22,7 @@ export class Visitor extends Model<VisitorAttributes, VisitorCreationAttributes>
   declare institution: string | null;
   declare room_code: string | null;
   declare checkin_date: Date;
+  declare synthetic_batch: string | null;
 }
 
 Visitor.init({
@@ -48,6 +50,11 @@ Visitor.init({
   checkin_date: {
     type: DataTypes.DATE,
     allowNull: false
+  },
+  // Added by database/synthetic_data.sql
+  synthetic_batch: {
+    type: DataTypes.STRING(40),
+    allowNull: true
   }
 }, {
   sequelize,
@@ -0,0 +1,94 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance } from 'fastify';
+import { simpleAuth } from '../middleware/simpleAuth.js';
+import { AnomalyService, ANOMALY_METRICS } from '../services/anomalyService.js';
+
+function ensureAdmin(req: any, reply: any) {
+  const user = req.user;
+  if (!user || user.username !== 'admin') {
+    reply.code(403).send({ error: 'Forbidden' });
+    return false;
+  }
+  return true;
+}
+
+const anomalySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    metric: { type: 'string' },
+    day: { type: 'string' },
+    value: { type: 'number' },
+    expected: { type: 'number' },
+    stddev: { type: 'number' },
+    z_score: { type: 'number' },
+    direction: { type: 'string' },
+    acknowledged: { type: 'boolean' },
+    acknowledged_by: { type: ['string', 'null'] },
+    acknowledged_at: { type: ['string', 'null'] },
+    note: { type: ['string', 'null'] },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+export default fp(async function anomalyRoutes(fastify: FastifyInstance) {
+  // List anomalies flagged by the daily jobs (newest day first)
+  fastify.get('/api/anomalies', {
+    schema: {
+      summary: 'List days flagged as anomalous in visitor / loan counts',
+      tags: ['Anomalies'],
+      description: 'Days whose count deviates from the same weekday of the previous weeks by more than ANOMALY_Z_THRESHOLD standard deviations. Detected by the daily visitor and books jobs.',
+      querystring: {
+        type: 'object',
+        properties: {
+          metric: { type: 'string', enum: [...ANOMALY_METRICS] },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          status: { type: 'string', enum: ['open', 'acknowledged', 'all'], default: 'all' },
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: anomalySchema }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const q = req.query as { metric?: 'visitors' | 'loans'; from?: string; to?: string; status?: 'open' | 'acknowledged' | 'all'; limit?: number };
+    try {
+      const data = await AnomalyService.list(q);
+      reply.send({ data });
+    } catch (e: any) {
+      req.server.log.error({ err: e }, '[anomaly] list failed');
+      reply.code(500).send({ error: 'Gagal mengambil data anomali' });
+    }
+  });
+
+  // Acknowledge (admin) - e.g. known holiday or confirmed scanner outage
+  fastify.patch('/api/anomalies/:id/ack', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Acknowledge an anomaly (admin)',
+      tags: ['Anomalies'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          note: { type: 'string', maxLength: 255 }
+        }
+      }
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return reply.code(400).send({ error: 'ID tidak valid' });
+    const updated = await AnomalyService.acknowledge(id, req.user.username, req.body?.note);
+    if (!updated) return reply.code(404).send({ error: 'Tidak ditemukan' });
+    reply.send({ data: updated });
+  });
+});
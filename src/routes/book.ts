@@ -1,8 +1,66 @@
 import type { FastifyInstance } from 'fastify';
-import { getBookCollectionStats, getTopBorrowedBooks, getTopBorrowedBooksThisMonth, getTopBorrowedBooksThisYear, getTopBorrowersThisMonth, getTopBorrowersThisYear } from '../services/bookService.js';
-import { redis, CACHE_KEYS } from '../cache/redisClient.js';
+import { getBookCollectionStats, getTopBorrowedBooks, getTopBorrowedBooksThisMonth, getTopBorrowedBooksThisYear, getTopBorrowersThisMonth, getTopBorrowersThisYear, getLoanCirculationInRange, LOAN_GRANULARITIES, getOverdueLoans, getCirculationToday, searchBooks, getBookDetail, type OverdueLoanQuery, type BookSearchQuery } from '../services/bookService.js';
+import { COLLECTION_DIMENSIONS, type CollectionDimension } from '../services/collectionService.js';
+import { simpleAuth } from '../middleware/simpleAuth.js';
+import { redis, CACHE_KEYS, getJSON, setJSON } from '../cache/redisClient.js';
+import { getTopBorrowedComparison, getTopBorrowersComparison } from '../services/compareService.js';
+import { compareQuerySchema, compareBlockSchema, deltaSchema, type CompareMode } from '../utils/periodCompare.js';
+import { MAX_BUCKETS, countBuckets, normalizeRange } from '../utils/dateBuckets.js';
+import { formatMonth, currentYear, startOfDay } from '../utils/timezone.js';
+import { OVERDUE_AGING } from '../utils/overdueAging.js';
+import { BOOK_SEARCH_FIELDS, isbnTerm } from '../utils/bookSearch.js';
+
+function ensureAdmin(req: any, reply: any) {
+  const user = req.user;
+  if (!user || user.username !== 'admin') {
+    reply.code(403).send({ error: 'Forbidden' });
+    return false;
+  }
+  return true;
+}
 
 export async function bookRoutes(fastify: FastifyInstance) {
+  // ?compare= blocks: current top N with their loans in the comparison window
+  const bookCompareSchema = compareBlockSchema({
+    total_loans: deltaSchema,
+    items: { type: 'array', items: { type: 'object', properties: { biblio_id: { type: 'number' }, title: { type: 'string' }, ...deltaSchema.properties } } }
+  });
+  const borrowerCompareSchema = compareBlockSchema({
+    total_loans: deltaSchema,
+    items: { type: 'array', items: { type: 'object', properties: { member_id: { type: 'number' }, member_name: { type: 'string' }, ...deltaSchema.properties } } }
+  });
+
+  // Real-time circulation counters (books fast loop); live query when the cache is cold
+  fastify.get('/api/books/today', {
+    schema: {
+      summary: 'Get today\'s loans, returns and items currently on loan',
+      tags: ['Books'],
+      description: 'Refreshed every BOOK_SYNC_INTERVAL_MS by the books fast loop and pushed on the `books.today` topic of /api/stream and /api/ws.',
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            date: { type: 'string' },
+            loans_today: { type: 'number' },
+            returns_today: { type: 'number' },
+            on_loan: { type: 'number' },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (_req, reply) => {
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.BOOKS_TODAY);
+    if (cachedMeta) {
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    const counters = await getCirculationToday();
+    const generated_at = new Date().toISOString();
+    await setJSON(CACHE_KEYS.BOOKS_TODAY, { generated_at, ttl_seconds: 10, data: counters }, 10);
+    return reply.send({ ...counters, generated_at, source: 'db' });
+  });
+
   fastify.get('/api/books/stats/collection', {
     schema: {
       summary: 'Get total unique titles and total items (collections)',
@@ -26,6 +84,51 @@ export async function bookRoutes(fastify: FastifyInstance) {
     return reply.status(202).send({ status: 'warming', message: 'cache not ready', retry_after_seconds: 5 });
   });
 
+  // Collection composition per dimension (daily books job)
+  fastify.get('/api/books/collection/:dimension', {
+    schema: {
+      summary: 'Get collection composition (titles and items) by GMD, DDC class, language, publish year, location or collection type',
+      tags: ['Books'],
+      description: '`ddc` groups by Dewey main class (000-900), `ddc-division` by division (e.g. 510, label = main class); classifications not starting with three digits are `key: null`. `publish-year` bands are publication age in years (`null` = missing or invalid year). For `location` and `collection-type` a title with copies in several places is counted once per place. Refreshed by the daily books job.',
+      params: {
+        type: 'object',
+        required: ['dimension'],
+        properties: { dimension: { type: 'string', enum: [...COLLECTION_DIMENSIONS] } }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            dimension: { type: 'string' },
+            total_titles: { type: 'number' },
+            total_items: { type: 'number' },
+            entries: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  key: { type: ['string', 'null'] },
+                  label: { type: ['string', 'null'] },
+                  titles: { type: 'number' },
+                  items: { type: 'number' }
+                }
+              }
+            },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { dimension } = req.params as { dimension: CollectionDimension };
+    const cachedMeta = await getJSON<any>(`${CACHE_KEYS.BOOK_COLLECTION_PREFIX}:${dimension}`);
+    if (cachedMeta) {
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    return reply.status(202).send({ status: 'warming', dimension, message: 'collection cache not ready', retry_after_seconds: 5 });
+  });
+
   fastify.get('/api/books/top/borrowed', {
     schema: {
       summary: 'Get top 10 borrowed books (all time)',
@@ -61,6 +164,8 @@ export async function bookRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Get top 10 borrowed books (current month)',
       tags: ['Books'],
+      description: '`compare=previous` compares with the previous month, `compare=last_year` with the same month last year (up to the same elapsed time).',
+      querystring: compareQuerySchema,
       response: {
         200: {
           type: 'object',
@@ -77,17 +182,21 @@ export async function bookRoutes(fastify: FastifyInstance) {
                 }
               }
             },
+            compare: bookCompareSchema,
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const key = CACHE_KEYS.BOOK_TOP_BORROWED_MONTH;
     const cached = await redis.get(key);
-    const ym = new Date();
-    const period = `${ym.getFullYear()}-${String(ym.getMonth()+1).padStart(2,'0')}`;
-    if (cached) { try { return reply.send({ period, books: JSON.parse(cached), source: 'cache' }); } catch {} }
+    const period = formatMonth();
+    if (cached) {
+      const comparison = compare ? await getTopBorrowedComparison('month', compare) : undefined;
+      try { return reply.send({ period, books: JSON.parse(cached), compare: comparison, source: 'cache' }); } catch {}
+    }
     return reply.status(202).send({ status: 'warming', period, message: 'cache not ready', retry_after_seconds: 5 });
   });
 
@@ -95,6 +204,8 @@ export async function bookRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Get top 10 borrowed books (current year)',
       tags: ['Books'],
+      description: '`compare=previous` compares with the previous year, `compare=last_year` with the same period last year (up to the same elapsed time).',
+      querystring: compareQuerySchema,
       response: {
         200: {
           type: 'object',
@@ -111,16 +222,21 @@ export async function bookRoutes(fastify: FastifyInstance) {
                 }
               }
             },
+            compare: bookCompareSchema,
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const key = CACHE_KEYS.BOOK_TOP_BORROWED_YEAR;
     const cached = await redis.get(key);
-    const y = new Date().getFullYear();
-    if (cached) { try { return reply.send({ year: y, books: JSON.parse(cached), source: 'cache' }); } catch {} }
+    const y = currentYear();
+    if (cached) {
+      const comparison = compare ? await getTopBorrowedComparison('year', compare) : undefined;
+      try { return reply.send({ year: y, books: JSON.parse(cached), compare: comparison, source: 'cache' }); } catch {}
+    }
     return reply.status(202).send({ status: 'warming', year: y, message: 'cache not ready', retry_after_seconds: 5 });
   });
 
@@ -128,14 +244,19 @@ export async function bookRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Top 10 peminjam (member) bulan ini',
       tags: ['Books'],
-      response: { 200: { type: 'object', properties: { period: { type: 'string' }, borrowers: { type: 'array', items: { type: 'object', properties: { member_id: { type: 'number' }, member_name: { type: 'string' }, total_loans: { type: 'number' } } } }, source: { type: 'string' } } } }
+      description: '`compare=previous` dibandingkan dengan bulan sebelumnya, `compare=last_year` dengan periode yang sama tahun lalu.',
+      querystring: compareQuerySchema,
+      response: { 200: { type: 'object', properties: { period: { type: 'string' }, borrowers: { type: 'array', items: { type: 'object', properties: { member_id: { type: 'number' }, member_name: { type: 'string' }, total_loans: { type: 'number' } } } }, compare: borrowerCompareSchema, source: { type: 'string' } } } }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const key = CACHE_KEYS.BOOK_TOP_BORROWERS_MONTH;
-    const now = new Date();
-    const period = `${now.getFullYear()}-${String(now.getMonth()+1).padStart(2,'0')}`;
+    const period = formatMonth();
     const cached = await redis.get(key);
-    if (cached) { try { return reply.send({ period, borrowers: JSON.parse(cached), source: 'cache' }); } catch {} }
+    if (cached) {
+      const comparison = compare ? await getTopBorrowersComparison('month', compare) : undefined;
+      try { return reply.send({ period, borrowers: JSON.parse(cached), compare: comparison, source: 'cache' }); } catch {}
+    }
     return reply.status(202).send({ status: 'warming', period, message: 'cache not ready', retry_after_seconds: 5 });
   });
 
@@ -143,16 +264,188 @@ export async function bookRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Top 10 peminjam (member) tahun ini',
       tags: ['Books'],
-      response: { 200: { type: 'object', properties: { year: { type: 'number' }, borrowers: { type: 'array', items: { type: 'object', properties: { member_id: { type: 'number' }, member_name: { type: 'string' }, total_loans: { type: 'number' } } } }, source: { type: 'string' } } } }
+      description: '`compare=previous` dibandingkan dengan tahun sebelumnya, `compare=last_year` dengan periode yang sama tahun lalu.',
+      querystring: compareQuerySchema,
+      response: { 200: { type: 'object', properties: { year: { type: 'number' }, borrowers: { type: 'array', items: { type: 'object', properties: { member_id: { type: 'number' }, member_name: { type: 'string' }, total_loans: { type: 'number' } } } }, compare: borrowerCompareSchema, source: { type: 'string' } } } }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const key = CACHE_KEYS.BOOK_TOP_BORROWERS_YEAR;
-    const year = new Date().getFullYear();
+    const year = currentYear();
     const cached = await redis.get(key);
-    if (cached) { try { return reply.send({ year, borrowers: JSON.parse(cached), source: 'cache' }); } catch {} }
+    if (cached) {
+      const comparison = compare ? await getTopBorrowersComparison('year', compare) : undefined;
+      try { return reply.send({ year, borrowers: JSON.parse(cached), compare: comparison, source: 'cache' }); } catch {}
+    }
     return reply.status(202).send({ status: 'warming', year, message: 'cache not ready', retry_after_seconds: 5 });
   });
 
+  // Loans and returns for an arbitrary date range (zero-filled buckets), next to /api/visitors/range
+  fastify.get('/api/books/loans/range', {
+    schema: {
+      summary: 'Get loans and returns for an arbitrary date range',
+      tags: ['Books'],
+      description: 'Counts loans (loan_date) and returns (return_date, is_return = 1) between from and to (inclusive, YYYY-MM-DD) grouped per day/week/month/year. Weeks start on Monday. Empty buckets are returned with 0.',
+      querystring: {
+        type: 'object',
+        required: ['from', 'to'],
+        properties: {
+          from: { type: 'string', description: 'Start date (YYYY-MM-DD), inclusive' },
+          to: { type: 'string', description: 'End date (YYYY-MM-DD), inclusive' },
+          granularity: { type: 'string', enum: [...LOAN_GRANULARITIES], default: 'day' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            granularity: { type: 'string' },
+            total_loans: { type: 'number' },
+            total_returns: { type: 'number' },
+            buckets: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  bucket: { type: 'string' },
+                  loans: { type: 'number' },
+                  returns: { type: 'number' }
+                }
+              }
+            },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const q = req.query as { from?: string; to?: string; granularity?: typeof LOAN_GRANULARITIES[number] };
+    const granularity = q.granularity || 'day';
+    const { range, error } = normalizeRange(q.from, q.to);
+    if (!range) return reply.status(400).send({ error });
+    if (countBuckets(range.start, range.end, granularity) > MAX_BUCKETS) {
+      return reply.status(400).send({ error: `range too large for granularity ${granularity} (max ${MAX_BUCKETS} buckets)` });
+    }
+
+    const cacheKey = `${CACHE_KEYS.BOOK_LOANS_RANGE_PREFIX}:${granularity}:${range.from}:${range.to}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) {
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    const result = await getLoanCirculationInRange(range, granularity);
+    // Closed (past) ranges no longer change; ranges touching today only get a short TTL.
+    const ttl = range.end <= startOfDay() ? 90000 : 60;
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: ttl, data: result }, ttl);
+    return reply.send({ ...result, generated_at, source: 'db' });
+  });
+
+  // Overdue loans: public summary from the daily cache, detail list for admins (live, includes contacts)
+  fastify.get('/api/books/overdue', {
+    schema: {
+      summary: 'Get currently overdue loans with aging buckets and per-fakultas counts',
+      tags: ['Books'],
+      description: `Loans still out (is_lent = 1, is_return = 0) whose due_date is before today. Aging buckets: ${OVERDUE_AGING.map(b => b.label).join(', ')} days overdue. Fakultas is derived from the NIM (null = non-student members). Refreshed by the daily books job.`,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            as_of: { type: 'string' },
+            total: { type: 'number' },
+            borrowers: { type: 'number' },
+            aging: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  label: { type: 'string' },
+                  min_days: { type: 'number' },
+                  max_days: { type: ['number', 'null'] },
+                  total: { type: 'number' }
+                }
+              }
+            },
+            by_fakultas: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  institution: { type: ['string', 'null'] },
+                  fakultas: { type: ['string', 'null'] },
+                  total: { type: 'number' }
+                }
+              }
+            },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (_req, reply) => {
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.BOOK_OVERDUE);
+    if (cachedMeta) {
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    return reply.status(202).send({ status: 'warming', message: 'overdue cache not ready', retry_after_seconds: 5 });
+  });
+
+  fastify.get('/api/books/overdue/loans', {
+    preHandler: simpleAuth,
+    schema: {
+      summary: 'List overdue loans for circulation staff (admin)',
+      tags: ['Books'],
+      description: 'Live list of overdue loans, longest overdue first, with borrower contact details. Admin only, since the list exposes member email and phone. Filter by fakultas code and minimum days overdue.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          fakultas: { type: 'string', maxLength: 10, description: 'Fakultas code' },
+          min_days: { type: 'integer', minimum: 1, description: 'Only loans at least this many days overdue' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            limit: { type: 'number' },
+            loans: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  loan_id: { type: 'number' },
+                  item_code: { type: 'string' },
+                  biblio_id: { type: ['number', 'null'] },
+                  title: { type: ['string', 'null'] },
+                  member_id: { type: 'string' },
+                  member_name: { type: ['string', 'null'] },
+                  member_email: { type: ['string', 'null'] },
+                  member_phone: { type: ['string', 'null'] },
+                  fakultas: { type: ['string', 'null'] },
+                  loan_date: { type: 'string' },
+                  due_date: { type: 'string' },
+                  days_overdue: { type: 'number' }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    if (!ensureAdmin(req, reply)) return;
+    const result = await getOverdueLoans(req.query as OverdueLoanQuery);
+    return reply.send(result);
+  });
+
   fastify.get('/api/books/summary', {
     schema: {
       summary: 'Ringkasan buku: koleksi, top borrowed (all/month/year), top borrowers (month/year)',
@@ -175,4 +468,130 @@ export async function bookRoutes(fastify: FastifyInstance) {
     if (cached) { try { return reply.send({ ...JSON.parse(cached), source: 'cache' }); } catch {} }
     return reply.status(202).send({ status: 'warming', message: 'summary cache not ready', retry_after_seconds: 5 });
   });
+
+  // Catalogue search and book page (kiosk, links from the top borrowed cards). Availability
+  // changes with every loan, so results are only cached briefly.
+
+  fastify.get('/api/books/search', {
+    schema: {
+      summary: 'Search the catalogue by title, author, ISBN or subject',
+      tags: ['Books'],
+      description: 'Matches titles (all words), author names and subjects (phrase) and ISBN / ISSN (prefix, dashes and spaces ignored; `field=isbn` needs at least one digit). `field=all` searches everything; results are ordered by relevance (exact and leading title matches first). `available` counts copies that can be borrowed now.',
+      querystring: {
+        type: 'object',
+        required: ['q'],
+        properties: {
+          q: { type: 'string', minLength: 2, maxLength: 100 },
+          field: { type: 'string', enum: [...BOOK_SEARCH_FIELDS], default: 'all' },
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 50, default: 20 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            q: { type: 'string' },
+            field: { type: 'string' },
+            total: { type: 'number' },
+            page: { type: 'number' },
+            limit: { type: 'number' },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  biblio_id: { type: 'number' },
+                  title: { type: 'string' },
+                  authors: { type: 'array', items: { type: 'string' } },
+                  isbn_issn: { type: ['string', 'null'] },
+                  publish_year: { type: ['string', 'null'] },
+                  call_number: { type: ['string', 'null'] },
+                  items: { type: 'number' },
+                  available: { type: 'number' },
+                  score: { type: 'number' }
+                }
+              }
+            },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const query = req.query as BookSearchQuery;
+    const q = query.q.trim();
+    if (q.length < 2) return reply.status(400).send({ error: 'q must have at least 2 characters' });
+    if (query.field === 'isbn' && isbnTerm(q) === null) return reply.status(400).send({ error: 'q must contain ISBN / ISSN digits for field=isbn' });
+    const params = { ...query, q };
+    // Matching is case-insensitive, so the key is too; echo this request's q, not the cached one
+    const cacheKey = `${CACHE_KEYS.BOOK_SEARCH_PREFIX}:${params.field}:${params.page}:${params.limit}:${q.toLowerCase()}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) return reply.send({ ...cachedMeta.data, q, source: 'cache' });
+    const result = await searchBooks(params);
+    await setJSON(cacheKey, { generated_at: new Date().toISOString(), ttl_seconds: 60, data: result }, 60);
+    return reply.send({ ...result, source: 'db' });
+  });
+
+  fastify.get('/api/books/:biblio_id', {
+    schema: {
+      summary: 'Get a book with its copies and their availability',
+      tags: ['Books'],
+      description: 'Bibliographic data plus every copy (item) with its status: `on_loan` (with due_date), `unavailable` (SLiMS item status not for loan, e.g. repair / missing; see status_note), `reserved` (a reservation is waiting) or `available`.',
+      params: {
+        type: 'object',
+        required: ['biblio_id'],
+        properties: { biblio_id: { type: 'integer', minimum: 1 } }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            biblio_id: { type: 'number' },
+            title: { type: 'string' },
+            edition: { type: ['string', 'null'] },
+            authors: { type: 'array', items: { type: 'string' } },
+            subjects: { type: 'array', items: { type: 'string' } },
+            isbn_issn: { type: ['string', 'null'] },
+            publisher: { type: ['string', 'null'] },
+            publish_year: { type: ['string', 'null'] },
+            language: { type: ['string', 'null'] },
+            gmd: { type: ['string', 'null'] },
+            classification: { type: ['string', 'null'] },
+            call_number: { type: ['string', 'null'] },
+            notes: { type: ['string', 'null'] },
+            total_items: { type: 'number' },
+            available_items: { type: 'number' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  item_id: { type: 'number' },
+                  item_code: { type: 'string' },
+                  call_number: { type: ['string', 'null'] },
+                  location: { type: ['string', 'null'] },
+                  collection_type: { type: ['string', 'null'] },
+                  status: { type: 'string', enum: ['available', 'on_loan', 'reserved', 'unavailable'] },
+                  status_note: { type: ['string', 'null'] },
+                  due_date: { type: ['string', 'null'] },
+                  reservations: { type: 'number' }
+                }
+              }
+            },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { biblio_id } = req.params as { biblio_id: number };
+    const cacheKey = `${CACHE_KEYS.BOOK_DETAIL_PREFIX}:${biblio_id}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) return reply.send({ ...cachedMeta.data, source: 'cache' });
+    const book = await getBookDetail(biblio_id);
+    if (!book) return reply.status(404).send({ error: 'Book not found' });
+    await setJSON(cacheKey, { generated_at: new Date().toISOString(), ttl_seconds: 30, data: book }, 30);
+    return reply.send({ ...book, source: 'db' });
+  });
 }
@@ -0,0 +1,183 @@
+import type { FastifyInstance } from 'fastify';
+import { CACHE_KEYS, getJSON, setJSON } from '../cache/redisClient.js';
+import { getRetentionCohorts, getNewVsReturning, getNewVsReturningByFaculty, defaultSplitRange } from '../services/cohortService.js';
+import { MAX_BUCKETS, countBuckets, normalizeRange } from '../utils/dateBuckets.js';
+import { formatMonth } from '../utils/timezone.js';
+
+const DEFAULT_COHORT_MONTHS = 12;
+
+export async function cohortRoutes(fastify: FastifyInstance) {
+  // Monthly retention cohorts (first-time visitors and how many came back)
+  fastify.get('/api/visitors/cohorts', {
+    schema: {
+      summary: 'Get monthly retention cohorts of first-time visitors',
+      tags: ['Visitors', 'Cohorts'],
+      description: 'Each cohort = members whose first ever check-in falls in that month. retention[i] = how many of them visited again i+1 months later. Default (12 months) is precomputed daily.',
+      querystring: {
+        type: 'object',
+        properties: {
+          months: { type: 'integer', minimum: 2, maximum: 36, default: DEFAULT_COHORT_MONTHS }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            cohorts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  cohort: { type: 'string' },
+                  size: { type: 'number' },
+                  retention: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        offset: { type: 'number' },
+                        month: { type: 'string' },
+                        returned: { type: 'number' },
+                        rate: { type: 'number' }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { months = DEFAULT_COHORT_MONTHS } = req.query as { months?: number };
+    if (months === DEFAULT_COHORT_MONTHS) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.COHORTS);
+      if (cachedMeta) return reply.send({ cohorts: cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+      return reply.status(202).send({ status: 'warming', message: 'cohorts cache not ready', retry_after_seconds: 5 });
+    }
+    const cacheKey = `${CACHE_KEYS.COHORTS}:${months}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) return reply.send({ cohorts: cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    const cohorts = await getRetentionCohorts(months);
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: 3600, data: cohorts }, 3600);
+    return reply.send({ cohorts, generated_at, source: 'db' });
+  });
+
+  // New vs returning members per period
+  fastify.get('/api/visitors/new-returning', {
+    schema: {
+      summary: 'Get new vs returning visitors per week or month',
+      tags: ['Visitors', 'Cohorts'],
+      description: 'Without from/to returns the last 12 months (monthly is precomputed daily, weekly is computed on demand). With from/to (YYYY-MM-DD) the split is computed on demand and cached for one hour.',
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          granularity: { type: 'string', enum: ['week', 'month'], default: 'month' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            granularity: { type: 'string' },
+            periods: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  period: { type: 'string' },
+                  active: { type: 'number' },
+                  new: { type: 'number' },
+                  returning: { type: 'number' }
+                }
+              }
+            },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const q = req.query as { from?: string; to?: string; granularity?: 'week' | 'month' };
+    const granularity = q.granularity || 'month';
+    const useDefault = !q.from && !q.to;
+    if (useDefault && granularity === 'month') {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.NEW_RETURNING);
+      if (cachedMeta) return reply.send({ granularity, periods: cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+      return reply.status(202).send({ status: 'warming', message: 'new-returning cache not ready', retry_after_seconds: 5 });
+    }
+    const { range, error } = useDefault ? { range: defaultSplitRange(), error: undefined } : normalizeRange(q.from, q.to);
+    if (!range) return reply.status(400).send({ error });
+    if (countBuckets(range.start, range.end, granularity) > MAX_BUCKETS) {
+      return reply.status(400).send({ error: `range too large (max ${MAX_BUCKETS} buckets)` });
+    }
+    const cacheKey = `${CACHE_KEYS.NEW_RETURNING}:${granularity}:${range.from}:${range.to}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) return reply.send({ granularity, periods: cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    const periods = await getNewVsReturning(range, granularity);
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: 3600, data: periods }, 3600);
+    return reply.send({ granularity, periods, generated_at, source: 'db' });
+  });
+
+  // New vs returning per fakultas for one month
+  fastify.get('/api/visitors/new-returning/faculties', {
+    schema: {
+      summary: 'Get new vs returning visitors per fakultas for a month',
+      tags: ['Visitors', 'Cohorts'],
+      querystring: {
+        type: 'object',
+        properties: {
+          month: { type: 'string', pattern: '^\\d{4}-(0[1-9]|1[0-2])$', description: 'YYYY-MM (default: current month)' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            month: { type: 'string' },
+            faculties: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  institution: { type: ['string', 'null'] },
+                  fakultas: { type: ['string', 'null'] },
+                  active: { type: 'number' },
+                  new: { type: 'number' },
+                  returning: { type: 'number' }
+                }
+              }
+            },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { month } = req.query as { month?: string };
+    const currentMonth = formatMonth();
+    if (!month || month === currentMonth) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.NEW_RETURNING_FACULTIES);
+      if (cachedMeta && cachedMeta.data.month === currentMonth) {
+        return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+      }
+      return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'new-returning faculties cache not ready', retry_after_seconds: 5 });
+    }
+    const cacheKey = `${CACHE_KEYS.NEW_RETURNING_FACULTIES}:${month}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    const result = await getNewVsReturningByFaculty(month);
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: 3600, data: result }, 3600);
+    return reply.send({ ...result, generated_at, source: 'db' });
+  });
+}
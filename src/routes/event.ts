@@ -3,6 +3,8 @@ import type { FastifyInstance } from 'fastify';
 import { EventService } from '../services/eventService.js';
 import { simpleAuth } from '../middleware/simpleAuth.js';
 import { uploadThumbnail } from '../middleware/uploadThumbnail.js';
+import { formatDay } from '../utils/dateBuckets.js';
+import { formatTime, LIBRARY_TZ } from '../utils/timezone.js';
 
 // Simple admin check: username === 'admin'
 function ensureAdmin(req: any, reply: any) {
@@ -92,5 +94,6 @@ function enrichCountdown(event: any) {
     const seconds = totalSeconds % 60;
     countdown = { days, hours, minutes, seconds };
   }
-  return { ...event, countdown };
+  // local_date / local_time: start in the library timezone, for display without client-side conversion
+  return { ...event, local_date: formatDay(starts), local_time: formatTime(starts), timezone: LIBRARY_TZ, countdown };
 }
@@ -0,0 +1,184 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance } from 'fastify';
+import { UniqueConstraintError } from 'sequelize';
+import { simpleAuth } from '../middleware/simpleAuth.js';
+import { FacultyService, parseNim } from '../services/facultyService.js';
+
+function ensureAdmin(req: any, reply: any) {
+  const user = req.user;
+  if (!user || user.username !== 'admin') {
+    reply.code(403).send({ error: 'Forbidden' });
+    return false;
+  }
+  return true;
+}
+
+// Duplicate code -> 409, validation from the service -> 400
+function sendWriteError(req: any, reply: any, e: any, fallback: string) {
+  if (e instanceof UniqueConstraintError) return reply.code(409).send({ error: 'Kode sudah digunakan' });
+  if (e instanceof Error && /^Kode (prodi|fakultas)/.test(e.message)) return reply.code(400).send({ error: e.message });
+  req.server.log.error({ err: e }, '[faculty] write failed');
+  return reply.code(500).send({ error: fallback });
+}
+
+const facultyBody = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', pattern: '^[0-9]{2}$', description: 'Kode fakultas 2 digit (institution / digit 4-5 NIM)' },
+    name: { type: 'string', minLength: 1, maxLength: 150 }
+  }
+};
+
+const programBody = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', pattern: '^[0-9]{3,10}$', description: 'Digit NIM mulai dari kode fakultas, mis. 1522' },
+    name: { type: 'string', minLength: 1, maxLength: 150 },
+    jenjang: { type: ['string', 'null'], maxLength: 10 }
+  }
+};
+
+export default fp(async function facultyRoutes(fastify: FastifyInstance) {
+  // Full reference (faculties with their study programs), served from Redis
+  fastify.get('/api/faculties', {
+    schema: {
+      summary: 'List faculties and study programs',
+      tags: ['Faculties']
+    }
+  }, async (req, reply) => {
+    try {
+      const ref = await FacultyService.list();
+      reply.send({ data: ref.faculties, generated_at: ref.generated_at });
+    } catch (e: any) {
+      req.server.log.error({ err: e }, '[faculty] list failed');
+      reply.code(500).send({ error: 'Gagal mengambil data fakultas' });
+    }
+  });
+
+  // Parse a NIM into angkatan / fakultas / prodi using the current reference
+  fastify.get('/api/faculties/nim/:nim', {
+    schema: {
+      summary: 'Derive entry year, faculty and study program from a NIM',
+      tags: ['Faculties'],
+      params: { type: 'object', properties: { nim: { type: 'string' } }, required: ['nim'] }
+    }
+  }, async (req: any, reply) => {
+    const info = parseNim(String(req.params.nim));
+    if (!info) return reply.code(400).send({ error: 'Bukan NIM yang valid' });
+    reply.send({ data: info });
+  });
+
+  fastify.post('/api/faculties', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Create faculty (admin)',
+      tags: ['Faculties'],
+      security: [{ bearerAuth: [] }],
+      body: { ...facultyBody, required: ['code', 'name'] }
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    try {
+      const created = await FacultyService.createFaculty({ code: req.body.code, name: req.body.name });
+      reply.code(201).send({ data: created });
+    } catch (e: any) {
+      return sendWriteError(req, reply, e, 'Gagal membuat fakultas');
+    }
+  });
+
+  fastify.put('/api/faculties/:id', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Update faculty (admin)',
+      description: '`code` can only change while the faculty has no study programs (their codes start with it). Changing it does not rewrite institution codes already stored in visitor_count.',
+      tags: ['Faculties'],
+      security: [{ bearerAuth: [] }],
+      body: facultyBody
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return reply.code(400).send({ error: 'ID tidak valid' });
+    try {
+      const updated = await FacultyService.updateFaculty(id, req.body || {});
+      if (!updated) return reply.code(404).send({ error: 'Tidak ditemukan' });
+      reply.send({ data: updated });
+    } catch (e: any) {
+      return sendWriteError(req, reply, e, 'Gagal update fakultas');
+    }
+  });
+
+  fastify.delete('/api/faculties/:id', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Delete faculty and its study programs (admin)',
+      tags: ['Faculties'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return reply.code(400).send({ error: 'ID tidak valid' });
+    const ok = await FacultyService.removeFaculty(id);
+    if (!ok) return reply.code(404).send({ error: 'Tidak ditemukan' });
+    reply.send({ success: true });
+  });
+
+  fastify.post('/api/faculties/:id/programs', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Add study program to a faculty (admin)',
+      tags: ['Faculties'],
+      security: [{ bearerAuth: [] }],
+      body: { ...programBody, required: ['code', 'name'] }
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return reply.code(400).send({ error: 'ID tidak valid' });
+    try {
+      const created = await FacultyService.createProgram(id, req.body);
+      if (!created) return reply.code(404).send({ error: 'Fakultas tidak ditemukan' });
+      reply.code(201).send({ data: created });
+    } catch (e: any) {
+      return sendWriteError(req, reply, e, 'Gagal membuat prodi');
+    }
+  });
+
+  fastify.put('/api/study-programs/:id', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Update study program (admin)',
+      tags: ['Faculties'],
+      security: [{ bearerAuth: [] }],
+      body: programBody
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return reply.code(400).send({ error: 'ID tidak valid' });
+    try {
+      const updated = await FacultyService.updateProgram(id, req.body || {});
+      if (!updated) return reply.code(404).send({ error: 'Tidak ditemukan' });
+      reply.send({ data: updated });
+    } catch (e: any) {
+      return sendWriteError(req, reply, e, 'Gagal update prodi');
+    }
+  });
+
+  fastify.delete('/api/study-programs/:id', {
+    preHandler: [simpleAuth],
+    schema: {
+      summary: 'Delete study program (admin)',
+      tags: ['Faculties'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (req: any, reply: any) => {
+    if (!ensureAdmin(req, reply)) return;
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return reply.code(400).send({ error: 'ID tidak valid' });
+    const ok = await FacultyService.removeProgram(id);
+    if (!ok) return reply.code(404).send({ error: 'Tidak ditemukan' });
+    reply.send({ success: true });
+  });
+});
@@ -1,7 +1,10 @@
 import type { FastifyInstance } from 'fastify';
 import { redis, CACHE_KEYS } from '../cache/redisClient.js';
-import { CRON_SCHEDULES, REALTIME } from '../cron/schedules.js';
+import { CRON_SCHEDULES, CRON_TIMEZONE, REALTIME } from '../cron/schedules.js';
 import { sequelize } from '../db/sequelize.js';
+import { REALTIME_TRANSPORT, INSTANCE_ID, isLeader, isLocalFallback } from '../events/realtimeBus.js';
+import { SYNTHETIC_DATA_MODE } from '../services/syntheticData.js';
+import { getSimulatorStatus } from '../services/trafficSimulator.js';
 
 // We'll track minimal loop runtime stats by monkey patching global vars via an optional import.
 // For now, we expose only configuration + cache ages.
@@ -43,6 +46,7 @@ export async function healthRoutes(fastify: FastifyInstance) {
 
     const cacheKeys = [
       CACHE_KEYS.TODAY_COUNT,
+      CACHE_KEYS.TODAY_UNIQUE,
       CACHE_KEYS.WEEK_DAILY,
       CACHE_KEYS.MONTHLY_TOTALS,
       CACHE_KEYS.YEARLY_TOTALS,
@@ -51,13 +55,32 @@ export async function healthRoutes(fastify: FastifyInstance) {
       CACHE_KEYS.TOP_MONTH_FACULTIES,
       CACHE_KEYS.TOP_YEAR_FACULTIES,
       CACHE_KEYS.SUMMARY,
+      CACHE_KEYS.UNIQUE_SUMMARY,
+      CACHE_KEYS.COHORTS,
+      CACHE_KEYS.NEW_RETURNING,
+      CACHE_KEYS.NEW_RETURNING_FACULTIES,
+      `${CACHE_KEYS.FORECAST_PREFIX}:7`,
+      `${CACHE_KEYS.FORECAST_PREFIX}:30`,
+      `${CACHE_KEYS.VISITOR_SEGMENTS_PREFIX}:month`,
+      `${CACHE_KEYS.VISITOR_SEGMENTS_PREFIX}:year`,
+      CACHE_KEYS.HEATMAP,
+      CACHE_KEYS.ROOMS_TODAY,
+      CACHE_KEYS.ROOMS_WEEK_DAILY,
+      CACHE_KEYS.ROOMS_MONTHLY_TOTALS,
+      CACHE_KEYS.ROOMS_TOP_MONTH,
+      CACHE_KEYS.ROOMS_TOP_YEAR,
+      CACHE_KEYS.ROOMS_TOP_MONTH_VISITORS,
       CACHE_KEYS.BOOK_COLLECTION_STATS,
       CACHE_KEYS.BOOK_TOP_BORROWED,
       CACHE_KEYS.BOOK_TOP_BORROWED_MONTH,
       CACHE_KEYS.BOOK_TOP_BORROWED_YEAR,
       CACHE_KEYS.BOOK_TOP_BORROWERS_MONTH,
       CACHE_KEYS.BOOK_TOP_BORROWERS_YEAR,
-      CACHE_KEYS.BOOK_SUMMARY
+      CACHE_KEYS.BOOK_SUMMARY,
+      `${CACHE_KEYS.BOOK_SEGMENTS_PREFIX}:month`,
+      `${CACHE_KEYS.BOOK_SEGMENTS_PREFIX}:year`,
+      CACHE_KEYS.BOOK_OVERDUE,
+      CACHE_KEYS.BOOKS_TODAY
     ];
     const ttlList = await Promise.all(cacheKeys.map(getKeyTTL));
 
@@ -79,9 +102,23 @@ export async function healthRoutes(fastify: FastifyInstance) {
         hard_floor_ms: Number(process.env.VISITOR_FAST_HARD_FLOOR_MS || 150),
         mode: process.env.TODAY_COUNT_MODE || 'direct'
       },
+      books_fast_loop: {
+        interval_ms: REALTIME.BOOK_FAST_INTERVAL_MS
+      },
+      realtime: {
+        transport: REALTIME_TRANSPORT,
+        local_fallback: isLocalFallback(),
+        instance_id: INSTANCE_ID,
+        leader: isLeader()
+      },
+      synthetic_data: {
+        mode: SYNTHETIC_DATA_MODE,
+        simulator_running: getSimulatorStatus().running
+      },
       schedules: {
         visitor_daily: CRON_SCHEDULES.VISITOR_AGGREGATION,
-        books_daily: CRON_SCHEDULES.BOOKS_AGGREGATION
+        books_daily: CRON_SCHEDULES.BOOKS_AGGREGATION,
+        timezone: CRON_TIMEZONE
       },
       cache: ttlList
     });
@@ -0,0 +1,90 @@
+import type { FastifyInstance } from 'fastify';
+import { CACHE_KEYS, getJSON, setJSON } from '../cache/redisClient.js';
+import { getVisitSegments, getLoanSegments, segmentWindow, type SegmentBreakdown, type SegmentPeriod } from '../services/segmentService.js';
+
+const segmentsResponse = {
+  type: 'object',
+  properties: {
+    period: { type: 'string' },
+    key: { type: 'string' },
+    by_angkatan: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          angkatan: { type: ['number', 'null'] },
+          first_year: { type: 'boolean' },
+          total: { type: 'number' },
+          members: { type: 'number' }
+        }
+      }
+    },
+    by_member_type: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          member_type_id: { type: ['number', 'null'] },
+          member_type: { type: ['string', 'null'] },
+          total: { type: 'number' },
+          members: { type: 'number' }
+        }
+      }
+    },
+    generated_at: { type: 'string' },
+    source: { type: 'string' }
+  }
+};
+
+const segmentsQuery = {
+  type: 'object',
+  properties: {
+    period: { type: 'string', enum: ['month', 'year'], default: 'month' },
+    month: { type: 'string', pattern: '^\\d{4}-(0[1-9]|1[0-2])$', description: 'YYYY-MM for period=month (default: current month)' },
+    year: { type: 'string', pattern: '^\\d{4}$', description: 'YYYY for period=year (default: current year)' }
+  }
+};
+
+export async function segmentRoutes(fastify: FastifyInstance) {
+  // Current period is served from the daily cache; past periods are computed on demand and cached for 1h
+  const handler = (prefix: string, compute: (period: SegmentPeriod, key?: string) => Promise<SegmentBreakdown>) =>
+    async (req: any, reply: any) => {
+      const { period = 'month', month, year } = req.query as { period?: SegmentPeriod; month?: string; year?: string };
+      const requested = period === 'month' ? month : year;
+      const current = segmentWindow(period).key;
+      if (!requested || requested === current) {
+        const cachedMeta = await getJSON<any>(`${prefix}:${period}`);
+        if (cachedMeta && cachedMeta.data.key === current) {
+          return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+        }
+        return reply.status(202).send({ status: 'warming', period, key: current, message: 'segments cache not ready', retry_after_seconds: 5 });
+      }
+      const cacheKey = `${prefix}:${period}:${requested}`;
+      const cachedMeta = await getJSON<any>(cacheKey);
+      if (cachedMeta) return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+      const result = await compute(period, requested);
+      const generated_at = new Date().toISOString();
+      await setJSON(cacheKey, { generated_at, ttl_seconds: 3600, data: result }, 3600);
+      return reply.send({ ...result, generated_at, source: 'db' });
+    };
+
+  fastify.get('/api/visitors/segments', {
+    schema: {
+      summary: 'Get visits by entry year (angkatan) and member type',
+      tags: ['Visitors'],
+      description: 'Angkatan is derived from the NIM (`null` = non-student member IDs). `first_year` marks the angkatan in its first academic year. Member types come from SLiMS mst_member_type.',
+      querystring: segmentsQuery,
+      response: { 200: segmentsResponse }
+    }
+  }, handler(CACHE_KEYS.VISITOR_SEGMENTS_PREFIX, getVisitSegments));
+
+  fastify.get('/api/books/segments', {
+    schema: {
+      summary: 'Get loans by entry year (angkatan) and member type',
+      tags: ['Books'],
+      description: 'Same breakdown as /api/visitors/segments for loans (loan_date). `members` counts distinct borrowers.',
+      querystring: segmentsQuery,
+      response: { 200: segmentsResponse }
+    }
+  }, handler(CACHE_KEYS.BOOK_SEGMENTS_PREFIX, getLoanSegments));
+}
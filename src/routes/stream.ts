@@ -0,0 +1,233 @@
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import { redis, CACHE_KEYS, getJSON } from '../cache/redisClient.js';
+import { STREAM_TOPICS, isStreamTopic, streamEvents, replayStreamEvents, lastStreamEventId, type StreamTopic } from '../events/streamHub.js';
+import { getRecentCheckins } from '../services/visitorService.js';
+import { getUpcomingEventsUpdate } from '../services/eventService.js';
+import { openSse, lastEventId } from '../utils/sse.js';
+import { SimpleAuthService, type JWTPayload } from '../services/simpleAuthService.js';
+
+const WS_HEARTBEAT_MS = Number(process.env.WS_HEARTBEAT_MS || 15000);
+const WS_REQUIRE_AUTH = (process.env.WS_REQUIRE_AUTH || 'false').toLowerCase() === 'true';
+const WS_CLOSE_UNAUTHORIZED = 4401;
+
+// Current state per topic, sent in `init` when the client cannot resume (same shape as the topic events)
+const SNAPSHOTS: Partial<Record<StreamTopic, () => Promise<unknown>>> = {
+  'visitors.today': async () => {
+    const [total, unique] = await Promise.all([redis.get(CACHE_KEYS.TODAY_COUNT), redis.get(CACHE_KEYS.TODAY_UNIQUE)]);
+    if (!total) return null;
+    return { total: Number(total), ...(unique ? { unique: Number(unique) } : {}), generated_at: new Date().toISOString() };
+  },
+  'visitors.rooms': async () => {
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_TODAY);
+    return cachedMeta ? { rooms: cachedMeta.data, generated_at: cachedMeta.generated_at } : null;
+  },
+  'visitors.checkins': async () => ({ checkins: await getRecentCheckins(), generated_at: new Date().toISOString() }),
+  'books.today': async () => {
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.BOOKS_TODAY);
+    return cachedMeta ? { ...cachedMeta.data, generated_at: cachedMeta.generated_at } : null;
+  },
+  'events.upcoming': getUpcomingEventsUpdate
+};
+
+async function loadSnapshots(topics: readonly StreamTopic[], log: FastifyBaseLogger): Promise<Record<string, unknown>> {
+  const loaded = await Promise.allSettled(topics.map(t => SNAPSHOTS[t]?.() ?? Promise.resolve(null)));
+  const state: Record<string, unknown> = {};
+  topics.forEach((t, i) => {
+    const result = loaded[i]!;
+    if (result.status === 'fulfilled') {
+      state[t] = result.value;
+    } else {
+      state[t] = null;
+      log.warn({ err: result.reason, topic: t }, '[stream] snapshot failed');
+    }
+  });
+  return state;
+}
+
+// Topic list from a comma separated string or array; `unknown` holds the rejected names
+function parseTopics(input: string | string[] | undefined): { topics: StreamTopic[]; unknown: string[] } {
+  const names = (Array.isArray(input) ? input : (input ?? '').split(',')).map(t => String(t).trim()).filter(Boolean);
+  return {
+    topics: [...new Set(names.filter(isStreamTopic))],
+    unknown: names.filter(t => !isStreamTopic(t))
+  };
+}
+
+export async function streamRoutes(fastify: FastifyInstance) {
+  // One SSE connection for several topics: each update is an event named after its topic
+  fastify.get('/api/stream', {
+    schema: {
+      summary: 'SSE stream: multiplexed real-time topics',
+      tags: ['Realtime'],
+      description: `Topics: ${STREAM_TOPICS.join(', ')}. Every update carries an \`id\`; on reconnect with \`Last-Event-ID\` (or \`?last_event_id=\`) missed updates are replayed from a bounded buffer. When that is not possible an \`init\` event with the current state of each topic is sent first (\`null\` = not available yet).`,
+      querystring: {
+        type: 'object',
+        properties: {
+          topics: { type: 'string', description: 'Comma separated topic list (default: all topics)' },
+          last_event_id: { type: 'string', description: 'Resume after this event id (alternative to the Last-Event-ID header)' }
+        }
+      },
+      response: {
+        200: {
+          description: 'SSE stream (text/event-stream)',
+          type: 'string'
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { topics: topicsParam } = req.query as { topics?: string };
+    const { topics, unknown } = topicsParam ? parseTopics(topicsParam) : { topics: [...STREAM_TOPICS], unknown: [] };
+    if (unknown.length || !topics.length) {
+      return reply.code(400).send({ error: `Unknown topics: ${unknown.join(', ') || '(none)'}`, topics: STREAM_TOPICS });
+    }
+
+    const sse = openSse(req, reply);
+
+    const resumeFrom = lastEventId(req);
+    const missed = resumeFrom === null ? null : replayStreamEvents(resumeFrom, topics);
+    if (missed) {
+      for (const e of missed) sse.send(e.topic, e.payload, e.id);
+    } else {
+      const snapshotId = lastStreamEventId() ?? undefined;
+      sse.send('init', { topics: await loadSnapshots(topics, req.log), at: new Date().toISOString() }, snapshotId);
+      // updates that arrived while the snapshots were loading
+      if (snapshotId !== undefined) {
+        for (const e of replayStreamEvents(snapshotId, topics) || []) sse.send(e.topic, e.payload, e.id);
+      }
+    }
+
+    for (const topic of topics) {
+      const listener = (payload: unknown, id: number) => {
+        sse.send(topic, payload, id);
+      };
+      streamEvents.on(topic, listener);
+      sse.onClose(() => streamEvents.off(topic, listener));
+    }
+
+    return reply; // keep connection open
+  });
+
+  // Same topics and payloads over WebSocket, for players behind proxies that buffer SSE.
+  //   client -> {type:'subscribe', topics:[...], last_event_id?} | {type:'unsubscribe', topics:[...]} | {type:'ping'}
+  //   server -> welcome | init | subscribed | unsubscribed | event {topic, id, data} | heartbeat | pong | error
+  fastify.get('/api/ws', {
+    websocket: true,
+    schema: {
+      summary: 'WebSocket: multiplexed real-time topics',
+      tags: ['Realtime'],
+      description: `Topics: ${STREAM_TOPICS.join(', ')}. Optional \`?token=\` (access token, required when WS_REQUIRE_AUTH=true) and \`?topics=\` to subscribe on connect. Updates arrive as \`{type:"event", topic, id, data}\` with the same data as /api/stream; \`last_event_id\` in a subscribe message replays missed updates.`,
+      querystring: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+          topics: { type: 'string', description: 'Comma separated topic list to subscribe on connect' },
+          last_event_id: { type: 'string' }
+        }
+      }
+    }
+  }, (connection, req) => {
+    const socket = connection.socket;
+    const query = req.query as { token?: string; topics?: string; last_event_id?: string };
+    const send = (message: Record<string, unknown>) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    // Browsers cannot set headers on WebSocket, so the token comes as ?token= (Authorization also accepted)
+    const token = query.token || req.headers.authorization?.split(' ')[1];
+    let user: JWTPayload | null = null;
+    if (token) {
+      try {
+        user = SimpleAuthService.verifyAccessToken(token);
+      } catch (_) {
+        socket.close(WS_CLOSE_UNAUTHORIZED, 'Invalid token');
+        return;
+      }
+    } else if (WS_REQUIRE_AUTH) {
+      socket.close(WS_CLOSE_UNAUTHORIZED, 'Token required');
+      return;
+    }
+
+    const listeners = new Map<StreamTopic, (payload: unknown, id: number) => void>();
+    const unsubscribe = (topics: readonly StreamTopic[]) => {
+      for (const topic of topics) {
+        const listener = listeners.get(topic);
+        if (!listener) continue;
+        streamEvents.off(topic, listener);
+        listeners.delete(topic);
+      }
+    };
+    const subscribe = async (topics: StreamTopic[], resumeFrom: number | null) => {
+      const added = topics.filter(t => !listeners.has(t));
+      const missed = resumeFrom === null ? null : replayStreamEvents(resumeFrom, added);
+      if (missed) {
+        for (const e of missed) send({ type: 'event', topic: e.topic, id: e.id, data: e.payload });
+      } else if (added.length) {
+        const snapshotId = lastStreamEventId();
+        send({ type: 'init', id: snapshotId, topics: await loadSnapshots(added, req.log), at: new Date().toISOString() });
+        if (snapshotId !== null) {
+          for (const e of replayStreamEvents(snapshotId, added) || []) send({ type: 'event', topic: e.topic, id: e.id, data: e.payload });
+        }
+      }
+      for (const topic of added) {
+        if (listeners.has(topic) || socket.readyState !== socket.OPEN) continue;
+        const listener = (payload: unknown, id: number) => send({ type: 'event', topic, id, data: payload });
+        streamEvents.on(topic, listener);
+        listeners.set(topic, listener);
+      }
+      send({ type: 'subscribed', topics: [...listeners.keys()] });
+    };
+
+    socket.on('message', (raw: Buffer) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch (_) {
+        return send({ type: 'error', message: 'Invalid JSON' });
+      }
+      if (message?.type === 'ping') return send({ type: 'pong', at: new Date().toISOString() });
+      if (message?.type !== 'subscribe' && message?.type !== 'unsubscribe') {
+        return send({ type: 'error', message: `Unknown message type: ${message?.type}` });
+      }
+      const { topics, unknown } = parseTopics(message.topics);
+      if (unknown.length) send({ type: 'error', message: `Unknown topics: ${unknown.join(', ')}`, topics: STREAM_TOPICS });
+      if (message.type === 'unsubscribe') {
+        unsubscribe(topics);
+        return send({ type: 'unsubscribed', topics, subscribed: [...listeners.keys()] });
+      }
+      const resumeFrom = Number.isInteger(message.last_event_id) ? Number(message.last_event_id) : null;
+      subscribe(topics, resumeFrom).catch(e => {
+        req.log.error({ err: e }, '[ws] subscribe failed');
+        send({ type: 'error', message: 'Subscribe failed' });
+      });
+    });
+
+    // Protocol ping detects dead peers; the JSON heartbeat lets embedded players spot a stalled socket
+    let alive = true;
+    socket.on('pong', () => { alive = true; });
+    const heartbeat = setInterval(() => {
+      if (!alive) {
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+      send({ type: 'heartbeat', at: new Date().toISOString() });
+    }, WS_HEARTBEAT_MS);
+
+    socket.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe([...listeners.keys()]);
+    });
+
+    send({ type: 'welcome', topics: STREAM_TOPICS, user: user ? user.username : null, heartbeat_ms: WS_HEARTBEAT_MS });
+    if (query.topics) {
+      const { topics, unknown } = parseTopics(query.topics);
+      if (unknown.length) send({ type: 'error', message: `Unknown topics: ${unknown.join(', ')}`, topics: STREAM_TOPICS });
+      const resumeFrom = query.last_event_id !== undefined && /^\d+$/.test(query.last_event_id) ? Number(query.last_event_id) : null;
+      subscribe(topics, resumeFrom).catch(e => {
+        req.log.error({ err: e }, '[ws] subscribe failed');
+        send({ type: 'error', message: 'Subscribe failed' });
+      });
+    }
+  });
+}
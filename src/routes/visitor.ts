@@ -1,65 +1,84 @@
 import type { FastifyInstance } from 'fastify';
 import { redis, CACHE_KEYS, getJSON, setJSON } from '../cache/redisClient.js';
-import { getTodayCount, getDailyCountsThisWeek, getMonthlyTotalsLastYear, getYearlyTotalsLast5Years, getCurrentMonthTopVisitors, getCurrentYearTopVisitors, getCurrentMonthTopFaculties, getCurrentYearTopFaculties, getDummyGenerationStatus, startDummyGeneration, stopDummyGeneration } from '../services/visitorService.js';
-import { visitorEvents } from '../events/visitorEvents.js';
-
-// Mapping fakultas berdasarkan kode institution
-const FAKULTAS_MAPPING: Record<string, string> = {
-  '01': 'Hukum',
-  '02': 'Pertanian',
-  '03': 'Kedokteran',
-  '04': 'MIPA',
-  '05': 'Ekonomi',
-  '06': 'Peternakan',
-  '07': 'Ilmu Budaya',
-  '08': 'Ilmu Sosial dan Ilmu Politik',
-  '09': 'Teknik',
-  '10': 'Farmasi',
-  '11': 'Teknologi Pertanian',
-  '12': 'Kesehatan Masyarakat',
-  '13': 'Keperawatan',
-  '14': 'Kedokteran Gigi',
-  '15': 'Teknologi Informasi',
-  '16': 'Pascasarjana'
-};
-
-function getFakultasName(institution: string | null): string | null {
-  if (!institution) return null;
-  return FAKULTAS_MAPPING[institution] || null;
+import { recordCheckin, getTodayUniqueCount, getVisitorCountsInRange, getVisitorHeatmap, HEATMAP_DEFAULT_DAYS, getTodayCountsByRoom, getTodayCount, getDailyCountsThisWeek, getMonthlyTotalsLastYear, getYearlyTotalsLast5Years, getMonthTopVisitors, getYearTopVisitors, getMonthTopFaculties, getYearTopFaculties, getRecentCheckins } from '../services/visitorService.js';
+import type { CheckinEvent } from '../events/visitorEvents.js';
+import { streamEvents, replayStreamEvents, lastStreamEventId } from '../events/streamHub.js';
+import { openSse, lastEventId } from '../utils/sse.js';
+import { simpleAuth } from '../middleware/simpleAuth.js';
+import { startSimulator, stopSimulator, getSimulatorStatus, type ScenarioInput } from '../services/trafficSimulator.js';
+import { FORECAST_HORIZONS } from '../services/forecastService.js';
+import { getTodayComparison, getVisitorSeriesComparison, getFacultyComparison } from '../services/compareService.js';
+import { compareQuerySchema, compareBlockSchema, deltaSchema, type CompareMode } from '../utils/periodCompare.js';
+import { GRANULARITIES, MAX_BUCKETS, countBuckets, isGranularity, normalizeRange } from '../utils/dateBuckets.js';
+import { formatMonth, periodWindow, startOfDay, startOfMonth, zonedParts } from '../utils/timezone.js';
+
+function ensureAdmin(req: any, reply: any) {
+  const user = req.user;
+  if (!user || user.username !== 'admin') {
+    reply.code(403).send({ error: 'Forbidden' });
+    return false;
+  }
+  return true;
 }
 
-function sortMonthlyDesc(months: { month: string; total: number }[]): { month: string; total: number }[] {
+function sortMonthlyDesc<T extends { month: string; total: number }>(months: T[]): T[] {
   return [...months].sort((a, b) => (a.month < b.month ? 1 : a.month > b.month ? -1 : 0));
 }
 
-function sortYearlyDesc(years: { year: number; total: number }[]): { year: number; total: number }[] {
+function sortYearlyDesc<T extends { year: number; total: number }>(years: T[]): T[] {
   return [...years].sort((a, b) => b.year - a.year);
 }
 
 export async function visitorRoutes(fastify: FastifyInstance) {
+  // ?compare= blocks (see services/compareService.ts)
+  const seriesCompareSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { bucket: { type: 'string' }, previous_bucket: { type: 'string' }, ...deltaSchema.properties }
+    }
+  };
+  const facultyCompareSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { institution: { type: ['string', 'null'] }, fakultas: { type: ['string', 'null'] }, ...deltaSchema.properties }
+    }
+  };
+
   fastify.get('/api/visitors/today', {
     schema: {
       summary: 'Get today\'s visitor count',
       tags: ['Visitors'],
+      description: '`compare=previous` compares with yesterday, `compare=last_year` with the same date last year, both up to the current time of day.',
+      querystring: compareQuerySchema,
       response: {
         200: {
           type: 'object',
           properties: {
             total: { type: 'number' },
+            unique: { type: 'number' },
+            compare: compareBlockSchema({ total: deltaSchema, unique: deltaSchema }),
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
+    const comparison = compare ? await getTodayComparison(compare) : undefined;
     // Try cache first
-    const cached = await redis.get(CACHE_KEYS.TODAY_COUNT);
-    if (cached) {
-      return reply.send({ total: Number(cached), source: 'cache' });
+    const [cached, cachedUnique] = await Promise.all([
+      redis.get(CACHE_KEYS.TODAY_COUNT),
+      redis.get(CACHE_KEYS.TODAY_UNIQUE)
+    ]);
+    if (cached && cachedUnique) {
+      return reply.send({ total: Number(cached), unique: Number(cachedUnique), compare: comparison, source: 'cache' });
     }
-    const total = await getTodayCount();
+    const [total, unique] = await Promise.all([getTodayCount(), getTodayUniqueCount()]);
     await redis.set(CACHE_KEYS.TODAY_COUNT, String(total), 'EX', 60);
-    return reply.send({ total, source: 'db' });
+    await redis.set(CACHE_KEYS.TODAY_UNIQUE, String(unique), 'EX', 60);
+    return reply.send({ total, unique, compare: comparison, source: 'db' });
   });
 
   // SSE stream for real-time today count
@@ -67,7 +86,7 @@ export async function visitorRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'SSE stream: real-time today visitor count',
       tags: ['Visitors'],
-      description: 'Server-Sent Events stream pushing updates whenever today\'s visitor count updates (fast loop).',
+      description: 'Server-Sent Events stream pushing updates whenever today\'s visitor count updates (fast loop). Events carry ids; on reconnect with `Last-Event-ID` (or `?last_event_id=`) missed updates are replayed instead of `init`.',
       response: {
         200: {
           description: 'SSE stream (text/event-stream)',
@@ -76,54 +95,76 @@ export async function visitorRoutes(fastify: FastifyInstance) {
       }
     }
   }, async (req, reply) => {
-    // Setup SSE headers
-    reply.raw.setHeader('Content-Type', 'text/event-stream');
-    reply.raw.setHeader('Cache-Control', 'no-cache, no-transform');
-    reply.raw.setHeader('Connection', 'keep-alive');
-    // For proxies (optional) disable buffering
-    reply.raw.setHeader('X-Accel-Buffering', 'no');
-    // Flush headers
-    // @ts-ignore
-    reply.raw.flushHeaders && reply.raw.flushHeaders();
-
-    const send = (event: string, data: any) => {
-      reply.raw.write(`event: ${event}\n`);
-      reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
-    };
+    const sse = openSse(req, reply);
 
-    // Initial value
-    try {
-      const cached = await redis.get(CACHE_KEYS.TODAY_COUNT);
-      if (cached) {
-        send('init', { total: Number(cached), source: 'cache', at: new Date().toISOString() });
-      } else {
-        const total = await getTodayCount();
-        // short TTL just for initial fetch fallback
-        await redis.set(CACHE_KEYS.TODAY_COUNT, String(total), 'EX', 30);
-        send('init', { total, source: 'db', at: new Date().toISOString() });
+    // Resume from Last-Event-ID while the replay buffer still covers it, otherwise start from a snapshot
+    const resumeFrom = lastEventId(req);
+    const missed = resumeFrom === null ? null : replayStreamEvents(resumeFrom, ['visitors.today']);
+    if (missed) {
+      for (const e of missed) sse.send('update', e.payload, e.id);
+    } else {
+      const snapshotId = lastStreamEventId() ?? undefined;
+      try {
+        const cached = await redis.get(CACHE_KEYS.TODAY_COUNT);
+        if (cached) {
+          const cachedUnique = await redis.get(CACHE_KEYS.TODAY_UNIQUE);
+          sse.send('init', { total: Number(cached), ...(cachedUnique ? { unique: Number(cachedUnique) } : {}), source: 'cache', at: new Date().toISOString() }, snapshotId);
+        } else {
+          const total = await getTodayCount();
+          // short TTL just for initial fetch fallback
+          await redis.set(CACHE_KEYS.TODAY_COUNT, String(total), 'EX', 30);
+          sse.send('init', { total, source: 'db', at: new Date().toISOString() }, snapshotId);
+        }
+      } catch (e: any) {
+        sse.send('error', { message: 'Failed to load initial today count', error: e.message });
       }
-    } catch (e: any) {
-      send('error', { message: 'Failed to load initial today count', error: e.message });
     }
 
-    const listener = (payload: any) => {
-      send('update', payload);
+    const listener = (payload: unknown, id: number) => {
+      sse.send('update', payload, id);
     };
-    visitorEvents.on('today', listener);
+    streamEvents.on('visitors.today', listener);
+    sse.onClose(() => streamEvents.off('visitors.today', listener));
+
+    return reply; // keep connection open
+  });
+
+  // SSE stream of individual (anonymized) check-ins for lobby displays
+  fastify.get('/api/visitors/checkins/stream', {
+    schema: {
+      summary: 'SSE stream: live anonymized check-in feed',
+      tags: ['Visitors'],
+      description: 'Sends `init` with the latest check-ins of today (newest first), then one `checkin` event per new visitor_count row detected by the fast loop: time, room, fakultas and a masked name (no member_id).',
+      response: {
+        200: {
+          description: 'SSE stream (text/event-stream)',
+          type: 'string'
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const sse = openSse(req, reply);
 
-    // Heartbeat every 15s to keep connection alive (comment lines with colon are ignored by SSE clients)
-    const heartbeat = setInterval(() => {
-      reply.raw.write(': keepalive\n\n');
-    }, 15000);
+    const resumeFrom = lastEventId(req);
+    const missed = resumeFrom === null ? null : replayStreamEvents(resumeFrom, ['visitors.checkins']);
+    if (missed) {
+      for (const e of missed) sse.send('checkin', e.payload, e.id);
+    } else {
+      const snapshotId = lastStreamEventId() ?? undefined;
+      try {
+        sse.send('init', { checkins: await getRecentCheckins(), at: new Date().toISOString() }, snapshotId);
+      } catch (e: any) {
+        sse.send('error', { message: 'Failed to load recent check-ins', error: e.message });
+      }
+    }
 
-    const cleanup = () => {
-      clearInterval(heartbeat);
-      visitorEvents.off('today', listener);
+    const listener = (payload: CheckinEvent, id: number) => {
+      sse.send('checkin', payload, id);
     };
-    req.raw.on('close', cleanup);
-    req.raw.on('end', cleanup);
+    streamEvents.on('visitors.checkins', listener);
+    sse.onClose(() => streamEvents.off('visitors.checkins', listener));
 
-    return reply; // keep connection open
+    return reply;
   });
 
   // Removed /api/visitors/latest and /api/visitors/trend per requirement simplification.
@@ -133,6 +174,8 @@ export async function visitorRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Get last 7 days daily counts',
       tags: ['Visitors'],
+      description: '`compare=previous` compares with the 7 days before, `compare=last_year` with the same 7 dates last year (today is compared up to the current time).',
+      querystring: compareQuerySchema,
       response: {
         200: {
           type: 'object',
@@ -143,19 +186,23 @@ export async function visitorRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   date: { type: 'string' },
-                  total: { type: 'number' }
+                  total: { type: 'number' },
+                  unique: { type: 'number' }
                 }
               }
             },
+            compare: compareBlockSchema({ total: deltaSchema, unique: deltaSchema, series: seriesCompareSchema }),
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const cachedMeta = await getJSON<any>(CACHE_KEYS.WEEK_DAILY);
     if (cachedMeta) {
-      return reply.send({ days: cachedMeta.data, generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+      const comparison = compare ? await getVisitorSeriesComparison('weekly', compare) : undefined;
+      return reply.send({ days: cachedMeta.data, compare: comparison, generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
     }
     return reply.status(202).send({ status: 'warming', message: 'weekly cache not ready', retry_after_seconds: 5 });
   });
@@ -165,6 +212,8 @@ export async function visitorRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Get last 12 months totals',
       tags: ['Visitors'],
+      description: '`compare` adds month-over-month per bucket against the 12 months before (`previous`) or year-over-year for the same months (`last_year`; identical windows for this 12-month series).',
+      querystring: compareQuerySchema,
       response: {
         200: {
           type: 'object',
@@ -175,19 +224,23 @@ export async function visitorRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   month: { type: 'string' },
-                  total: { type: 'number' }
+                  total: { type: 'number' },
+                  unique: { type: 'number' }
                 }
               }
             },
+            compare: compareBlockSchema({ total: deltaSchema, unique: deltaSchema, series: seriesCompareSchema }),
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const cachedMeta = await getJSON<any>(CACHE_KEYS.MONTHLY_TOTALS);
     if (cachedMeta) {
-      return reply.send({ months: sortMonthlyDesc(cachedMeta.data), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+      const comparison = compare ? await getVisitorSeriesComparison('monthly', compare) : undefined;
+      return reply.send({ months: sortMonthlyDesc(cachedMeta.data), compare: comparison, generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
     }
     return reply.status(202).send({ status: 'warming', message: 'monthly cache not ready', retry_after_seconds: 5 });
   });
@@ -197,6 +250,8 @@ export async function visitorRoutes(fastify: FastifyInstance) {
     schema: {
       summary: 'Get yearly totals (last 5 years)',
       tags: ['Visitors'],
+      description: '`compare=previous` compares with the 5 years before, `compare=last_year` shifts the window by one year (current year compared up to the same date).',
+      querystring: compareQuerySchema,
       response: {
         200: {
           type: 'object',
@@ -207,238 +262,802 @@ export async function visitorRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   year: { type: 'number' },
-                  total: { type: 'number' }
+                  total: { type: 'number' },
+                  unique: { type: 'number' }
                 }
               }
             },
+            compare: compareBlockSchema({ total: deltaSchema, unique: deltaSchema, series: seriesCompareSchema }),
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
+  }, async (req, reply) => {
+    const { compare } = req.query as { compare?: CompareMode };
     const cachedMeta = await getJSON<any>(CACHE_KEYS.YEARLY_TOTALS);
     if (cachedMeta) {
-      return reply.send({ years: sortYearlyDesc(cachedMeta.data), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+      const comparison = compare ? await getVisitorSeriesComparison('yearly', compare) : undefined;
+      return reply.send({ years: sortYearlyDesc(cachedMeta.data), compare: comparison, generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
     }
     return reply.status(202).send({ status: 'warming', message: 'yearly cache not ready', retry_after_seconds: 5 });
   });
 
-  // Monthly top visitors (current month top 10)
-  fastify.get('/api/visitors/monthly/top', {
+  // Unique visitors (distinct member_id) vs total visits (check-ins)
+  fastify.get('/api/visitors/unique', {
     schema: {
-      summary: 'Get top 10 visitors for current month',
+      summary: 'Get unique visitors vs total visits (today, 7 days, month, year)',
       tags: ['Visitors'],
+      description: 'total = raw check-ins, unique = COUNT(DISTINCT member_id). week/month/year come from the daily aggregation; today is real-time (Redis HyperLogLog, ~0.8% standard error).',
       response: {
         200: {
           type: 'object',
           properties: {
-            month: { type: 'string' },
-            visitors: {
+            today: { type: 'object', properties: { total: { type: 'number' }, unique: { type: 'number' } } },
+            week: { type: 'object', properties: { total: { type: 'number' }, unique: { type: 'number' } } },
+            month: { type: 'object', properties: { total: { type: 'number' }, unique: { type: 'number' } } },
+            year: { type: 'object', properties: { total: { type: 'number' }, unique: { type: 'number' } } },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (_req, reply) => {
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.UNIQUE_SUMMARY);
+    if (!cachedMeta) {
+      return reply.status(202).send({ status: 'warming', message: 'unique visitors cache not ready', retry_after_seconds: 5 });
+    }
+    // Overlay the real-time today figures from the fast loop when available
+    const [todayRaw, uniqueRaw] = await Promise.all([
+      redis.get(CACHE_KEYS.TODAY_COUNT),
+      redis.get(CACHE_KEYS.TODAY_UNIQUE)
+    ]);
+    const today = todayRaw && uniqueRaw ? { total: Number(todayRaw), unique: Number(uniqueRaw) } : cachedMeta.data.today;
+    return reply.send({ ...cachedMeta.data, today, generated_at: cachedMeta.generated_at, source: 'cache' });
+  });
+
+  // Arbitrary date range with selectable granularity (zero-filled buckets)
+  fastify.get('/api/visitors/range', {
+    schema: {
+      summary: 'Get visitor counts for an arbitrary date range',
+      tags: ['Visitors'],
+      description: 'Counts check-ins between from and to (inclusive, YYYY-MM-DD) grouped per hour/day/week/month/year. Weeks start on Monday. Empty buckets are returned with total 0.',
+      querystring: {
+        type: 'object',
+        required: ['from', 'to'],
+        properties: {
+          from: { type: 'string', description: 'Start date (YYYY-MM-DD), inclusive' },
+          to: { type: 'string', description: 'End date (YYYY-MM-DD), inclusive' },
+          granularity: { type: 'string', enum: [...GRANULARITIES], default: 'day' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            granularity: { type: 'string' },
+            total: { type: 'number' },
+            buckets: {
               type: 'array',
               items: {
                 type: 'object',
                 properties: {
-                  member_id: { type: ['string', 'null'] },
-                  member_name: { type: ['string', 'null'] },
-                  institution: { type: ['string', 'null'] },
-                  fakultas: { type: ['string', 'null'] },
+                  bucket: { type: 'string' },
                   total: { type: 'number' }
                 }
               }
             },
+            generated_at: { type: 'string' },
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const currentMonth = new Date().toISOString().slice(0,7);
-    const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_MONTH_VISITORS);
+  }, async (req, reply) => {
+    const q = req.query as { from?: string; to?: string; granularity?: string };
+    const granularity = q.granularity || 'day';
+    if (!isGranularity(granularity)) {
+      return reply.status(400).send({ error: `granularity must be one of ${GRANULARITIES.join(', ')}` });
+    }
+    const { range, error } = normalizeRange(q.from, q.to);
+    if (!range) return reply.status(400).send({ error });
+    if (countBuckets(range.start, range.end, granularity) > MAX_BUCKETS) {
+      return reply.status(400).send({ error: `range too large for granularity ${granularity} (max ${MAX_BUCKETS} buckets)` });
+    }
+
+    const cacheKey = `${CACHE_KEYS.RANGE_PREFIX}:${granularity}:${range.from}:${range.to}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
     if (cachedMeta) {
-      const rows = cachedMeta.data;
-      if (rows.length > 0 && rows[0].month === currentMonth) {
-        return reply.send({ month: rows[0].month, visitors: rows.map((r: any) => ({ member_id: r.member_id, member_name: r.member_name, institution: r.institution, fakultas: r.fakultas, total: r.total })), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
-      }
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
     }
-    return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'top month cache not ready', retry_after_seconds: 5 });
+    const result = await getVisitorCountsInRange(range, granularity);
+    // Closed (past) ranges no longer change; ranges touching today only get a short TTL.
+    const ttl = range.end <= startOfDay() ? 90000 : 60;
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: ttl, data: result }, ttl);
+    return reply.send({ ...result, generated_at, source: 'db' });
   });
 
-  // Yearly top visitors (current year top 10)
-  fastify.get('/api/visitors/yearly/top', {
+  // Day-of-week x hour-of-day heatmap (precomputed daily for the default period)
+  fastify.get('/api/visitors/heatmap', {
     schema: {
-      summary: 'Get top 10 visitors for current year',
+      summary: 'Get day-of-week x hour-of-day visitor heatmap',
       tags: ['Visitors'],
+      description: 'matrix[weekday][hour] with total and average check-ins over the last N complete days (weekday 0 = Monday). The default period is precomputed by the daily cron; other periods are computed on demand and cached for one hour.',
+      querystring: {
+        type: 'object',
+        properties: {
+          days: { type: 'integer', minimum: 7, maximum: 730 }
+        }
+      },
       response: {
         200: {
           type: 'object',
           properties: {
-            year: { type: 'number' },
-            visitors: {
+            period_start: { type: 'string' },
+            period_end: { type: 'string' },
+            days: { type: 'number' },
+            day_labels: { type: 'array', items: { type: 'string' } },
+            matrix: {
               type: 'array',
               items: {
-                type: 'object',
-                properties: {
-                  member_id: { type: ['string', 'null'] },
-                  member_name: { type: ['string', 'null'] },
-                  institution: { type: ['string', 'null'] },
-                  fakultas: { type: ['string', 'null'] },
-                  total: { type: 'number' }
-                }
+                type: 'array',
+                items: { type: 'object', properties: { total: { type: 'number' }, average: { type: 'number' } } }
               }
             },
+            peak: { anyOf: [{ type: 'object', properties: { weekday: { type: 'number' }, day: { type: 'string' }, hour: { type: 'number' }, total: { type: 'number' }, average: { type: 'number' } } }, { type: 'null' }] },
+            top_slots: { type: 'array', items: { type: 'object', properties: { weekday: { type: 'number' }, day: { type: 'string' }, hour: { type: 'number' }, total: { type: 'number' }, average: { type: 'number' } } } },
+            generated_at: { type: 'string' },
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const currentYear = new Date().getFullYear();
-    const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_YEAR_VISITORS);
-    if (cachedMeta) {
-      const rows = cachedMeta.data;
-      if (rows.length > 0 && rows[0].year === currentYear) {
-        return reply.send({ year: rows[0].year, visitors: rows.map((r: any) => ({ member_id: r.member_id, member_name: r.member_name, institution: r.institution, fakultas: r.fakultas, total: r.total })), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+  }, async (req, reply) => {
+    const { days } = req.query as { days?: number };
+    if (!days || days === HEATMAP_DEFAULT_DAYS) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.HEATMAP);
+      if (cachedMeta) {
+        return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
       }
+      return reply.status(202).send({ status: 'warming', message: 'heatmap cache not ready', retry_after_seconds: 5 });
     }
-    return reply.status(202).send({ status: 'warming', year: currentYear, message: 'top year cache not ready', retry_after_seconds: 5 });
+    const cacheKey = `${CACHE_KEYS.HEATMAP}:${days}`;
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) {
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    const heatmap = await getVisitorHeatmap(days);
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: 3600, data: heatmap }, 3600);
+    return reply.send({ ...heatmap, generated_at, source: 'db' });
   });
 
-  // Monthly top faculties (current month top 10)
-  fastify.get('/api/visitors/faculties/monthly/top', {
+  // Visitor forecast for the next 7 / 30 days (computed by the daily cron)
+  fastify.get('/api/visitors/forecast', {
     schema: {
-      summary: 'Get top 10 faculties for current month',
+      summary: 'Get forecast of daily visits for the next 7 or 30 days',
       tags: ['Visitors'],
+      description: 'Additive Holt-Winters (weekly seasonality) fitted on up to a year of daily counts, with a 95% band and the seasonal-naive baseline per day. Falls back to seasonal naive when history is shorter than 3 weeks.',
+      querystring: {
+        type: 'object',
+        properties: {
+          horizon: { type: 'integer', enum: [...FORECAST_HORIZONS], default: 7 }
+        }
+      },
       response: {
         200: {
           type: 'object',
           properties: {
-            month: { type: 'string' },
-            faculties: {
+            horizon: { type: 'number' },
+            method: { type: 'string' },
+            history: { type: 'object', properties: { from: { type: 'string' }, to: { type: 'string' }, days: { type: 'number' } } },
+            params: {
+              type: ['object', 'null'],
+              properties: { alpha: { type: 'number' }, beta: { type: 'number' }, gamma: { type: 'number' } }
+            },
+            rmse: { type: 'number' },
+            points: {
               type: 'array',
               items: {
                 type: 'object',
                 properties: {
-                  institution: { type: ['string', 'null'] },
-                  fakultas: { type: ['string', 'null'] },
-                  total: { type: 'number' }
+                  date: { type: 'string' },
+                  forecast: { type: 'number' },
+                  lower: { type: 'number' },
+                  upper: { type: 'number' },
+                  seasonal_naive: { type: 'number' }
                 }
               }
             },
+            generated_at: { type: 'string' },
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const currentMonth = new Date().toISOString().slice(0,7);
-    const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_MONTH_FACULTIES);
+  }, async (req, reply) => {
+    const { horizon = 7 } = req.query as { horizon?: number };
+    const cachedMeta = await getJSON<any>(`${CACHE_KEYS.FORECAST_PREFIX}:${horizon}`);
     if (cachedMeta) {
-      const rows = cachedMeta.data;
-      if (rows.length > 0 && rows[0].month === currentMonth) {
-        return reply.send({ month: rows[0].month, faculties: rows.map((r: any) => ({ institution: r.institution, fakultas: r.fakultas, total: r.total })), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+      return reply.send({ ...cachedMeta.data, generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    return reply.status(202).send({ status: 'warming', horizon, message: 'forecast cache not ready', retry_after_seconds: 5 });
+  });
+
+  // ---- Leaderboards (top visitors / faculties) ----
+  // The default query (current period, limit 10, all faculties) is served from the daily cache;
+  // other periods / limits / fakultas filters are computed on demand and cached per period.
+  // Past periods are final, so they are kept longer.
+  const rankProperties = {
+    rank: { type: 'number' },
+    previous_rank: { type: ['number', 'null'] },
+    movement: { type: 'string', enum: ['up', 'down', 'same', 'new'] }
+  };
+  const topVisitorItem = {
+    type: 'object',
+    properties: {
+      member_id: { type: ['string', 'null'] },
+      member_name: { type: ['string', 'null'] },
+      institution: { type: ['string', 'null'] },
+      fakultas: { type: ['string', 'null'] },
+      total: { type: 'number' },
+      ...rankProperties
+    }
+  };
+  const topFacultyItem = {
+    type: 'object',
+    properties: {
+      institution: { type: ['string', 'null'] },
+      fakultas: { type: ['string', 'null'] },
+      total: { type: 'number' },
+      ...rankProperties
+    }
+  };
+  const leaderboardQuery = {
+    month: { type: 'string', pattern: '^\\d{4}-(0[1-9]|1[0-2])$', description: 'YYYY-MM (default: current month)' },
+    year: { type: 'integer', minimum: 2000, maximum: 2100, description: 'Default: current year' },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+    fakultas: { type: 'string', pattern: '^[0-9]{2}$', description: 'Only members of this fakultas code' }
+  };
+  const LEADERBOARD_DEFAULT_LIMIT = 10;
+  const LEADERBOARD_CURRENT_TTL = 3600;
+  const LEADERBOARD_PAST_TTL = 86400;
+  const pickVisitor = (r: any) => ({ member_id: r.member_id, member_name: r.member_name, institution: r.institution, fakultas: r.fakultas, total: r.total, rank: r.rank, previous_rank: r.previous_rank, movement: r.movement });
+  const pickFaculty = (r: any) => ({ institution: r.institution, fakultas: r.fakultas, total: r.total, rank: r.rank, previous_rank: r.previous_rank, movement: r.movement });
+
+  async function cachedLeaderboard<T>(cacheKey: string, isCurrent: boolean, compute: () => Promise<T[]>) {
+    const cachedMeta = await getJSON<any>(cacheKey);
+    if (cachedMeta) return { rows: cachedMeta.data as T[], generated_at: cachedMeta.generated_at as string, source: 'cache' };
+    const rows = await compute();
+    const ttl = isCurrent ? LEADERBOARD_CURRENT_TTL : LEADERBOARD_PAST_TTL;
+    const generated_at = new Date().toISOString();
+    await setJSON(cacheKey, { generated_at, ttl_seconds: ttl, data: rows }, ttl);
+    return { rows, generated_at, source: 'db' };
+  }
+
+  // Monthly top visitors
+  fastify.get('/api/visitors/monthly/top', {
+    schema: {
+      summary: 'Get top visitors for a month',
+      tags: ['Visitors'],
+      description: 'Defaults to the current month, top 10. `previous_rank` is the rank in the month before (`null` / `movement: new` = not ranked there), for up/down arrows and monthly awards.',
+      querystring: { type: 'object', properties: { month: leaderboardQuery.month, limit: leaderboardQuery.limit, fakultas: leaderboardQuery.fakultas } },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            month: { type: 'string' },
+            previous_month: { type: 'string' },
+            visitors: { type: 'array', items: topVisitorItem },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { month, limit = LEADERBOARD_DEFAULT_LIMIT, fakultas } = req.query as { month?: string; limit?: number; fakultas?: string };
+    const currentMonth = formatMonth();
+    const key = month || currentMonth;
+    if (key > currentMonth) return reply.code(400).send({ error: 'month is in the future' });
+    const previousMonth = formatMonth(startOfMonth(periodWindow('month', key).start, -1));
+    if (key === currentMonth && limit === LEADERBOARD_DEFAULT_LIMIT && !fakultas) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_MONTH_VISITORS);
+      if (cachedMeta) {
+        const rows = cachedMeta.data;
+        if (rows.length > 0 && rows[0].month === currentMonth) {
+          return reply.send({ month: rows[0].month, previous_month: previousMonth, visitors: rows.map(pickVisitor), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+        }
+      }
+      return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'top month cache not ready', retry_after_seconds: 5 });
+    }
+    const result = await cachedLeaderboard(`${CACHE_KEYS.LEADERBOARD_PREFIX}:visitors:month:${key}:${limit}:${fakultas || 'all'}`, key === currentMonth, () => getMonthTopVisitors(key, { limit, fakultas: fakultas || null }));
+    return reply.send({ month: key, previous_month: previousMonth, visitors: result.rows.map(pickVisitor), generated_at: result.generated_at, source: result.source });
+  });
+
+  // Yearly top visitors
+  fastify.get('/api/visitors/yearly/top', {
+    schema: {
+      summary: 'Get top visitors for a year',
+      tags: ['Visitors'],
+      description: 'Defaults to the current year, top 10. `previous_rank` is the rank in the year before.',
+      querystring: { type: 'object', properties: { year: leaderboardQuery.year, limit: leaderboardQuery.limit, fakultas: leaderboardQuery.fakultas } },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            year: { type: 'number' },
+            previous_year: { type: 'number' },
+            visitors: { type: 'array', items: topVisitorItem },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { year, limit = LEADERBOARD_DEFAULT_LIMIT, fakultas } = req.query as { year?: number; limit?: number; fakultas?: string };
+    const currentYear = zonedParts().year;
+    const key = year ?? currentYear;
+    if (key > currentYear) return reply.code(400).send({ error: 'year is in the future' });
+    if (key === currentYear && limit === LEADERBOARD_DEFAULT_LIMIT && !fakultas) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_YEAR_VISITORS);
+      if (cachedMeta) {
+        const rows = cachedMeta.data;
+        if (rows.length > 0 && rows[0].year === currentYear) {
+          return reply.send({ year: rows[0].year, previous_year: currentYear - 1, visitors: rows.map(pickVisitor), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+        }
+      }
+      return reply.status(202).send({ status: 'warming', year: currentYear, message: 'top year cache not ready', retry_after_seconds: 5 });
+    }
+    const result = await cachedLeaderboard(`${CACHE_KEYS.LEADERBOARD_PREFIX}:visitors:year:${key}:${limit}:${fakultas || 'all'}`, key === currentYear, () => getYearTopVisitors(key, { limit, fakultas: fakultas || null }));
+    return reply.send({ year: key, previous_year: key - 1, visitors: result.rows.map(pickVisitor), generated_at: result.generated_at, source: result.source });
+  });
+
+  // Monthly top faculties
+  fastify.get('/api/visitors/faculties/monthly/top', {
+    schema: {
+      summary: 'Get top faculties for a month',
+      tags: ['Visitors'],
+      description: 'Defaults to the current month, top 10, with `previous_rank` in the month before. `compare` (current month only) adds every fakultas with its count in the previous month (`previous`) or the same month last year (`last_year`), up to the same elapsed time.',
+      querystring: { type: 'object', properties: { ...compareQuerySchema.properties, month: leaderboardQuery.month, limit: leaderboardQuery.limit } },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            month: { type: 'string' },
+            previous_month: { type: 'string' },
+            faculties: { type: 'array', items: topFacultyItem },
+            compare: compareBlockSchema({ total: deltaSchema, faculties: facultyCompareSchema }),
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { compare, month, limit = LEADERBOARD_DEFAULT_LIMIT } = req.query as { compare?: CompareMode; month?: string; limit?: number };
+    const currentMonth = formatMonth();
+    const key = month || currentMonth;
+    if (key > currentMonth) return reply.code(400).send({ error: 'month is in the future' });
+    const previousMonth = formatMonth(startOfMonth(periodWindow('month', key).start, -1));
+    const comparison = compare && key === currentMonth ? await getFacultyComparison('month', compare) : undefined;
+    if (key === currentMonth && limit === LEADERBOARD_DEFAULT_LIMIT) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_MONTH_FACULTIES);
+      if (cachedMeta) {
+        const rows = cachedMeta.data;
+        if (rows.length > 0 && rows[0].month === currentMonth) {
+          return reply.send({ month: rows[0].month, previous_month: previousMonth, faculties: rows.map(pickFaculty), compare: comparison, generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+        }
       }
+      return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'top month faculties cache not ready', retry_after_seconds: 5 });
     }
-    return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'top month faculties cache not ready', retry_after_seconds: 5 });
+    const result = await cachedLeaderboard(`${CACHE_KEYS.LEADERBOARD_PREFIX}:faculties:month:${key}:${limit}`, key === currentMonth, () => getMonthTopFaculties(key, limit));
+    return reply.send({ month: key, previous_month: previousMonth, faculties: result.rows.map(pickFaculty), compare: comparison, generated_at: result.generated_at, source: result.source });
   });
 
-  // Yearly top faculties (current year top 10)
+  // Yearly top faculties
   fastify.get('/api/visitors/faculties/yearly/top', {
     schema: {
-      summary: 'Get top 10 faculties for current year',
+      summary: 'Get top faculties for a year',
       tags: ['Visitors'],
+      description: 'Defaults to the current year, top 10, with `previous_rank` in the year before. `compare` (current year only) adds every fakultas with its count in the previous year (`previous`) or the same period last year (`last_year`), up to the same elapsed time.',
+      querystring: { type: 'object', properties: { ...compareQuerySchema.properties, year: leaderboardQuery.year, limit: leaderboardQuery.limit } },
       response: {
         200: {
           type: 'object',
           properties: {
             year: { type: 'number' },
-            faculties: {
+            previous_year: { type: 'number' },
+            faculties: { type: 'array', items: topFacultyItem },
+            compare: compareBlockSchema({ total: deltaSchema, faculties: facultyCompareSchema }),
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { compare, year, limit = LEADERBOARD_DEFAULT_LIMIT } = req.query as { compare?: CompareMode; year?: number; limit?: number };
+    const currentYear = zonedParts().year;
+    const key = year ?? currentYear;
+    if (key > currentYear) return reply.code(400).send({ error: 'year is in the future' });
+    const comparison = compare && key === currentYear ? await getFacultyComparison('year', compare) : undefined;
+    if (key === currentYear && limit === LEADERBOARD_DEFAULT_LIMIT) {
+      const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_YEAR_FACULTIES);
+      if (cachedMeta) {
+        const rows = cachedMeta.data;
+        if (rows.length > 0 && rows[0].year === currentYear) {
+          return reply.send({ year: rows[0].year, previous_year: currentYear - 1, faculties: rows.map(pickFaculty), compare: comparison, generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
+        }
+      }
+      return reply.status(202).send({ status: 'warming', year: currentYear, message: 'top year faculties cache not ready', retry_after_seconds: 5 });
+    }
+    const result = await cachedLeaderboard(`${CACHE_KEYS.LEADERBOARD_PREFIX}:faculties:year:${key}:${limit}`, key === currentYear, () => getYearTopFaculties(key, limit));
+    return reply.send({ year: key, previous_year: key - 1, faculties: result.rows.map(pickFaculty), compare: comparison, generated_at: result.generated_at, source: result.source });
+  });
+
+  // ---- Per-room endpoints (room_code) ----
+  const roomCountSchema = { type: 'object', properties: { room_code: { type: ['string', 'null'] }, total: { type: 'number' } } };
+  const roomSeriesSchema = {
+    type: 'object',
+    properties: {
+      room_code: { type: ['string', 'null'] },
+      total: { type: 'number' },
+      buckets: { type: 'array', items: { type: 'object', properties: { bucket: { type: 'string' }, total: { type: 'number' } } } }
+    }
+  };
+  const roomQuerySchema = {
+    type: 'object',
+    properties: { room: { type: 'string', description: 'Only return this room_code' } }
+  };
+  const filterRoom = <T extends { room_code: string | null }>(rows: T[], room?: string) =>
+    room ? rows.filter(r => r.room_code === room) : rows;
+
+  // Today per room (fed by the fast loop)
+  fastify.get('/api/visitors/rooms/today', {
+    schema: {
+      summary: 'Get today\'s visitor count per room',
+      tags: ['Visitors', 'Rooms'],
+      querystring: roomQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            rooms: { type: 'array', items: roomCountSchema },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { room } = req.query as { room?: string };
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_TODAY);
+    if (cachedMeta) {
+      return reply.send({ rooms: filterRoom(cachedMeta.data, room), generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    const rooms = await getTodayCountsByRoom();
+    const generated_at = new Date().toISOString();
+    await setJSON(CACHE_KEYS.ROOMS_TODAY, { generated_at, ttl_seconds: 30, data: rooms }, 30);
+    return reply.send({ rooms: filterRoom(rooms, room), generated_at, source: 'db' });
+  });
+
+  // Last 7 days per room
+  fastify.get('/api/visitors/rooms/weekly', {
+    schema: {
+      summary: 'Get last 7 days daily counts per room',
+      tags: ['Visitors', 'Rooms'],
+      querystring: roomQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            rooms: { type: 'array', items: roomSeriesSchema },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { room } = req.query as { room?: string };
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_WEEK_DAILY);
+    if (cachedMeta) {
+      return reply.send({ rooms: filterRoom(cachedMeta.data, room), generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    return reply.status(202).send({ status: 'warming', message: 'rooms weekly cache not ready', retry_after_seconds: 5 });
+  });
+
+  // Last 12 months per room
+  fastify.get('/api/visitors/rooms/monthly', {
+    schema: {
+      summary: 'Get last 12 months totals per room',
+      tags: ['Visitors', 'Rooms'],
+      querystring: roomQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            rooms: { type: 'array', items: roomSeriesSchema },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (req, reply) => {
+    const { room } = req.query as { room?: string };
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_MONTHLY_TOTALS);
+    if (cachedMeta) {
+      return reply.send({ rooms: filterRoom(cachedMeta.data, room), generated_at: cachedMeta.generated_at, source: 'cache' });
+    }
+    return reply.status(202).send({ status: 'warming', message: 'rooms monthly cache not ready', retry_after_seconds: 5 });
+  });
+
+  // Busiest rooms (current month / current year)
+  fastify.get('/api/visitors/rooms/monthly/top', {
+    schema: {
+      summary: 'Get top 10 rooms for current month',
+      tags: ['Visitors', 'Rooms'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            month: { type: 'string' },
+            rooms: { type: 'array', items: roomCountSchema },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (_req, reply) => {
+    const currentMonth = formatMonth();
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_TOP_MONTH);
+    if (cachedMeta) {
+      const rows = cachedMeta.data;
+      if (rows.length > 0 && rows[0].period === currentMonth) {
+        return reply.send({ month: currentMonth, rooms: rows.map((r: any) => ({ room_code: r.room_code, total: r.total })), generated_at: cachedMeta.generated_at, source: 'cache' });
+      }
+    }
+    return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'top month rooms cache not ready', retry_after_seconds: 5 });
+  });
+
+  fastify.get('/api/visitors/rooms/yearly/top', {
+    schema: {
+      summary: 'Get top 10 rooms for current year',
+      tags: ['Visitors', 'Rooms'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            year: { type: 'number' },
+            rooms: { type: 'array', items: roomCountSchema },
+            generated_at: { type: 'string' },
+            source: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (_req, reply) => {
+    const currentYear = zonedParts().year;
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_TOP_YEAR);
+    if (cachedMeta) {
+      const rows = cachedMeta.data;
+      if (rows.length > 0 && rows[0].period === String(currentYear)) {
+        return reply.send({ year: currentYear, rooms: rows.map((r: any) => ({ room_code: r.room_code, total: r.total })), generated_at: cachedMeta.generated_at, source: 'cache' });
+      }
+    }
+    return reply.status(202).send({ status: 'warming', year: currentYear, message: 'top year rooms cache not ready', retry_after_seconds: 5 });
+  });
+
+  // Top visitors of the current month inside each room
+  fastify.get('/api/visitors/rooms/monthly/top-visitors', {
+    schema: {
+      summary: 'Get top 10 visitors per room for current month',
+      tags: ['Visitors', 'Rooms'],
+      querystring: roomQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            month: { type: 'string' },
+            rooms: {
               type: 'array',
               items: {
                 type: 'object',
                 properties: {
-                  institution: { type: ['string', 'null'] },
-                  fakultas: { type: ['string', 'null'] },
-                  total: { type: 'number' }
+                  room_code: { type: ['string', 'null'] },
+                  visitors: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        member_id: { type: ['string', 'null'] },
+                        member_name: { type: ['string', 'null'] },
+                        institution: { type: ['string', 'null'] },
+                        fakultas: { type: ['string', 'null'] },
+                        total: { type: 'number' }
+                      }
+                    }
+                  }
                 }
               }
             },
+            generated_at: { type: 'string' },
             source: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const currentYear = new Date().getFullYear();
-    const cachedMeta = await getJSON<any>(CACHE_KEYS.TOP_YEAR_FACULTIES);
+  }, async (req, reply) => {
+    const { room } = req.query as { room?: string };
+    const currentMonth = formatMonth();
+    const cachedMeta = await getJSON<any>(CACHE_KEYS.ROOMS_TOP_MONTH_VISITORS);
     if (cachedMeta) {
-      const rows = cachedMeta.data;
-      if (rows.length > 0 && rows[0].year === currentYear) {
-        return reply.send({ year: rows[0].year, faculties: rows.map((r: any) => ({ institution: r.institution, fakultas: r.fakultas, total: r.total })), generated_at: cachedMeta.generated_at, ttl_seconds: cachedMeta.ttl_seconds, source: 'cache' });
-      }
+      return reply.send({ month: currentMonth, rooms: filterRoom(cachedMeta.data, room), generated_at: cachedMeta.generated_at, source: 'cache' });
     }
-    return reply.status(202).send({ status: 'warming', year: currentYear, message: 'top year faculties cache not ready', retry_after_seconds: 5 });
+    return reply.status(202).send({ status: 'warming', month: currentMonth, message: 'rooms top visitors cache not ready', retry_after_seconds: 5 });
   });
 
-  // Dummy generation endpoints
-  fastify.post('/api/visitors/dummy/start', {
+  // Kiosk check-in (authenticated write path)
+  fastify.post('/api/visitors/checkin', {
+    preHandler: simpleAuth,
     schema: {
-      summary: 'Start dummy visitor generation',
-      tags: ['Visitors', 'Dummy'],
+      summary: 'Record a visitor check-in from the self-service kiosk',
+      tags: ['Visitors'],
+      description: 'Validates member_id against SLiMS member, derives institution, rejects repeat taps within CHECKIN_DUPLICATE_WINDOW_SECONDS (409), inserts into visitor_count and pushes the new today count to SSE clients immediately.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['member_id'],
+        properties: {
+          member_id: { type: 'string', minLength: 1, maxLength: 64 },
+          room_code: { type: 'string', maxLength: 64 }
+        }
+      },
       response: {
-        200: {
+        201: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            message: { type: 'string' }
+            message: { type: 'string' },
+            visitor: {
+              type: 'object',
+              properties: {
+                visitor_id: { type: 'number' },
+                member_id: { type: ['string', 'null'] },
+                member_name: { type: ['string', 'null'] },
+                institution: { type: ['string', 'null'] },
+                fakultas: { type: ['string', 'null'] },
+                room_code: { type: ['string', 'null'] },
+                checkin_date: { type: 'string' }
+              }
+            },
+            today_total: { type: 'number' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const result = startDummyGeneration();
-    return reply.send(result);
+  }, async (req, reply) => {
+    const body = req.body as { member_id: string; room_code?: string };
+    const result = await recordCheckin({ member_id: body.member_id, room_code: body.room_code ?? null });
+    switch (result.status) {
+      case 'created':
+        return reply.status(201).send({ success: true, message: result.message, visitor: result.visitor, today_total: result.today_total });
+      case 'member_not_found':
+        return reply.status(404).send({ success: false, status: result.status, message: result.message });
+      case 'member_pending':
+        return reply.status(403).send({ success: false, status: result.status, message: result.message });
+      case 'duplicate':
+        reply.header('Retry-After', String(result.retry_after_seconds));
+        return reply.status(409).send({ success: false, status: result.status, message: result.message, retry_after_seconds: result.retry_after_seconds });
+    }
   });
 
-  fastify.post('/api/visitors/dummy/stop', {
+  // Traffic simulator (replaces the one-row-per-minute dummy generator)
+  const scenarioSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', maxLength: 60 },
+      base_rate_per_hour: { type: 'number', minimum: 0, maximum: 100000, description: 'Arrivals per hour at profile weight 1' },
+      hourly_profile: { type: 'array', items: { type: 'number', minimum: 0 }, minItems: 24, maxItems: 24, description: '24 weights, index = hour (library time)' },
+      weekday_multiplier: { type: 'number', minimum: 0 },
+      weekend_multiplier: { type: 'number', minimum: 0 },
+      exam_multiplier: { type: 'number', minimum: 0 },
+      exam_periods: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['from', 'to'],
+          properties: { from: { type: 'string', format: 'date' }, to: { type: 'string', format: 'date' } }
+        }
+      },
+      faculty_weights: { type: 'object', additionalProperties: { type: 'number', minimum: 0 }, description: 'fakultas code -> weight (default: all faculties equal)' },
+      room_weights: { type: 'object', additionalProperties: { type: 'number', minimum: 0 }, description: 'room_code -> weight' },
+      returning_ratio: { type: 'number', minimum: 0, maximum: 1 },
+      duration_minutes: { type: ['integer', 'null'], minimum: 1, maximum: 1440 }
+    }
+  };
+  const simulatorStatusSchema = {
+    type: 'object',
+    properties: {
+      running: { type: 'boolean' },
+      scenario: { ...scenarioSchema, type: ['object', 'null'] },
+      batch: { type: ['string', 'null'] },
+      data_mode: { type: 'string', enum: ['exclude', 'include', 'only'] },
+      started_at: { type: ['string', 'null'] },
+      stops_at: { type: ['string', 'null'] },
+      inserted: { type: 'number' },
+      ticks: { type: 'number' },
+      errors: { type: 'number' },
+      last_error: { type: ['string', 'null'] },
+      current_rate_per_hour: { type: 'number' }
+    }
+  };
+
+  fastify.post('/api/visitors/dummy/start', {
+    preHandler: simpleAuth,
     schema: {
-      summary: 'Stop dummy visitor generation',
+      summary: 'Start the visitor traffic simulator (admin)',
       tags: ['Visitors', 'Dummy'],
+      description: 'Inserts synthetic check-ins into visitor_count following the scenario: arrivals/hour = base_rate_per_hour x hourly_profile[hour] x weekday|weekend multiplier x exam_multiplier (inside exam_periods). Omitted fields use the default scenario. Rows are tagged with a per-run synthetic_batch and only show up in aggregates when SYNTHETIC_DATA_MODE is include or only.',
+      security: [{ bearerAuth: [] }],
+      body: { ...scenarioSchema, nullable: true },
       response: {
         200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            message: { type: 'string' }
+            message: { type: 'string' },
+            scenario: scenarioSchema,
+            batch: { type: 'string' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const result = stopDummyGeneration();
+  }, async (req, reply) => {
+    if (!ensureAdmin(req, reply)) return;
+    const result = await startSimulator((req.body as ScenarioInput | null) || {});
     return reply.send(result);
   });
 
-  fastify.get('/api/visitors/dummy/status', {
+  fastify.post('/api/visitors/dummy/stop', {
+    preHandler: simpleAuth,
     schema: {
-      summary: 'Get dummy visitor generation status',
+      summary: 'Stop the visitor traffic simulator (admin)',
       tags: ['Visitors', 'Dummy'],
+      security: [{ bearerAuth: [] }],
       response: {
         200: {
           type: 'object',
           properties: {
-            running: { type: 'boolean' },
-            hasInterval: { type: 'boolean' }
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            inserted: { type: 'number' }
           }
         }
       }
     }
-  }, async (_req, reply) => {
-    const status = getDummyGenerationStatus();
-    return reply.send({
-      running: status.running,
-      hasInterval: status.interval !== null
-    });
+  }, async (req, reply) => {
+    if (!ensureAdmin(req, reply)) return;
+    const result = stopSimulator();
+    return reply.send(result);
+  });
+
+  fastify.get('/api/visitors/dummy/status', {
+    preHandler: simpleAuth,
+    schema: {
+      summary: 'Get visitor traffic simulator status (admin)',
+      tags: ['Visitors', 'Dummy'],
+      security: [{ bearerAuth: [] }],
+      response: { 200: simulatorStatusSchema }
+    }
+  }, async (req, reply) => {
+    if (!ensureAdmin(req, reply)) return;
+    return reply.send(getSimulatorStatus());
   });
 
   // Summary endpoint: bundles today, weekly, monthly into one response
@@ -451,20 +1070,24 @@ export async function visitorRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             today: { type: 'number' },
-            weekly: { type: 'array', items: { type: 'object', properties: { date: { type: 'string' }, total: { type: 'number' } } } },
-            monthly: { type: 'array', items: { type: 'object', properties: { month: { type: 'string' }, total: { type: 'number' } } } },
-            yearly: { type: 'array', items: { type: 'object', properties: { year: { type: 'number' }, total: { type: 'number' } } } },
+            weekly: { type: 'array', items: { type: 'object', properties: { date: { type: 'string' }, total: { type: 'number' }, unique: { type: 'number' } } } },
+            monthly: { type: 'array', items: { type: 'object', properties: { month: { type: 'string' }, total: { type: 'number' }, unique: { type: 'number' } } } },
+            yearly: { type: 'array', items: { type: 'object', properties: { year: { type: 'number' }, total: { type: 'number' }, unique: { type: 'number' } } } },
             top_monthly_visitors: { type: 'array', items: { type: 'object', properties: { month: { type: 'string' }, member_id: { type: ['string', 'null'] }, member_name: { type: ['string', 'null'] }, institution: { type: ['string', 'null'] }, fakultas: { type: ['string', 'null'] }, total: { type: 'number' } } } },
+            rooms_today: { type: 'array', items: { type: 'object', properties: { room_code: { type: ['string', 'null'] }, total: { type: 'number' } } } },
             source: { type: 'string' }
           }
         }
       }
     }
   }, async (_req, reply) => {
+    // Per-room breakdown comes from the fast loop cache (real-time), not the daily summary
+    const roomsMeta = await getJSON<any>(CACHE_KEYS.ROOMS_TODAY);
+    const rooms_today = roomsMeta ? roomsMeta.data : [];
     // Try summary cache first
     const summaryCached = await getJSON<any>(CACHE_KEYS.SUMMARY);
     if (summaryCached) {
-      return reply.send({ ...summaryCached, source: 'cache' });
+      return reply.send({ ...summaryCached, rooms_today, source: 'cache' });
     }
     // Provide minimal today only (real-time) and instruct warming for aggregates
     const todayRaw = await redis.get(CACHE_KEYS.TODAY_COUNT);
@@ -475,6 +1098,6 @@ export async function visitorRoutes(fastify: FastifyInstance) {
       today = await getTodayCount();
       await redis.set(CACHE_KEYS.TODAY_COUNT, String(today), 'EX', 30);
     }
-    return reply.status(202).send({ status: 'warming', today, message: 'summary cache not ready', retry_after_seconds: 5 });
+    return reply.status(202).send({ status: 'warming', today, rooms_today, message: 'summary cache not ready', retry_after_seconds: 5 });
   });
 }
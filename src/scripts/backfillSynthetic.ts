@@ -0,0 +1,175 @@
+import fs from 'fs';
+import { pool } from '../db/mysqlClient.js';
+import { initAuthSequelize } from '../db/authSequelize.js';
+import { loadFacultyReference } from '../services/facultyService.js';
+import { DEFAULT_SCENARIO, createVisitorFactory, poisson, scenarioRatePerHour, type SimulatorScenario } from '../services/trafficSimulator.js';
+import { formatDay, parseDay } from '../utils/dateBuckets.js';
+import { addDays, startOfDay, zonedParts, zonedTime } from '../utils/timezone.js';
+
+// Backfills visitor_count (and optionally SLiMS loan rows) with synthetic history so charts
+// and top-N lists have data in new / demo environments. Every row carries synthetic_batch
+// (database/synthetic_data.sql) so it can be purged again.
+//
+//   npm run backfill-synthetic -- --from=2025-01-01 [--to=2025-12-31] [--rate=120] [--scenario=scenario.json]
+//                                 [--loans] [--loan-ratio=0.2] [--batch=label] [--dry-run]
+//   npm run backfill-synthetic -- --purge[=label]
+//
+// Only whole past days are filled (default --to: yesterday); use the simulator
+// (/api/visitors/dummy/start) for live traffic.
+
+const CHUNK_SIZE = 1000;
+const HOUR_MS = 3600 * 1000;
+const LOAN_PERIOD_DAYS = 7;
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (const arg of argv) {
+    const m = /^--([a-z-]+)(?:=(.*))?$/.exec(arg);
+    if (m) args[m[1]!] = m[2] ?? true;
+  }
+  return args;
+}
+
+async function hasTagColumn(table: string): Promise<boolean> {
+  const [rows] = await pool.query(
+    `SELECT COUNT(*) AS n FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = 'synthetic_batch'`,
+    [table]
+  );
+  return Number((rows as any[])[0]?.n) > 0;
+}
+
+async function requireTagColumn(table: string) {
+  if (!(await hasTagColumn(table))) {
+    throw new Error(`${table}.synthetic_batch is missing: run database/synthetic_data.sql on the SLiMS database first`);
+  }
+}
+
+async function insertChunks(sql: string, rows: unknown[][]) {
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+    await pool.query(sql, [rows.slice(i, i + CHUNK_SIZE)]);
+  }
+}
+
+// Deletes in chunks to keep lock times short on the live SLiMS tables
+async function purge(table: 'visitor_count' | 'loan', batch: string | null): Promise<number> {
+  const where = batch ? 'synthetic_batch = ?' : 'synthetic_batch IS NOT NULL';
+  let total = 0;
+  for (;;) {
+    const [res] = await pool.query(`DELETE FROM ${table} WHERE ${where} LIMIT 10000`, batch ? [batch] : []);
+    const affected = Number((res as any).affectedRows) || 0;
+    total += affected;
+    if (affected < 10000) return total;
+  }
+}
+
+async function loadScenario(args: Record<string, string | true>): Promise<SimulatorScenario> {
+  let scenario: SimulatorScenario = { ...DEFAULT_SCENARIO, name: 'backfill' };
+  if (typeof args.scenario === 'string') {
+    scenario = { ...scenario, ...JSON.parse(fs.readFileSync(args.scenario, 'utf8')) };
+  }
+  if (typeof args.rate === 'string') scenario.base_rate_per_hour = Number(args.rate);
+  if (scenario.hourly_profile.length !== 24) throw new Error('hourly_profile must have 24 values');
+  return scenario;
+}
+
+async function backfill(args: Record<string, string | true>) {
+  const from = typeof args.from === 'string' ? parseDay(args.from) : null;
+  if (!from) throw new Error('--from=YYYY-MM-DD is required');
+  const today = startOfDay();
+  const toArg = typeof args.to === 'string' ? parseDay(args.to) : addDays(today, -1);
+  if (!toArg) throw new Error('--to must be YYYY-MM-DD');
+  const end = addDays(toArg, 1) < today ? addDays(toArg, 1) : today;
+  if (end <= from) throw new Error('Nothing to fill: the range must end before today');
+
+  const dryRun = args['dry-run'] === true;
+  const withLoans = args.loans === true;
+  const loanRatio = typeof args['loan-ratio'] === 'string' ? Number(args['loan-ratio']) : 0.2;
+  const batch = typeof args.batch === 'string' ? args.batch : `backfill-${formatDay(new Date())}-${Date.now() % 100000}`;
+  const scenario = await loadScenario(args);
+
+  if (!dryRun) await requireTagColumn('visitor_count');
+  if (!dryRun && withLoans) await requireTagColumn('loan');
+
+  // Loans reuse real items (and real members when there are any) so the joins in bookService resolve
+  let itemCodes: string[] = [];
+  let memberIds: string[] = [];
+  if (withLoans) {
+    const [items] = await pool.query('SELECT item_code FROM item ORDER BY RAND() LIMIT 5000');
+    const [members] = await pool.query('SELECT member_id FROM member ORDER BY RAND() LIMIT 5000');
+    itemCodes = (items as any[]).map(r => r.item_code).filter(Boolean);
+    memberIds = (members as any[]).map(r => String(r.member_id));
+    if (!itemCodes.length) console.warn('[backfill] table item is empty, skipping loans');
+  }
+
+  const nextVisitor = createVisitorFactory(scenario);
+  let visits = 0;
+  let loans = 0;
+  console.log(`[backfill] batch=${batch} ${formatDay(from)}..${formatDay(addDays(end, -1))} rate=${scenario.base_rate_per_hour}/h loans=${withLoans && itemCodes.length ? loanRatio : 'off'}${dryRun ? ' (dry run)' : ''}`);
+
+  // One day at a time: draw arrivals per hour, insert the day in chunks
+  for (let day = from; day < end; day = addDays(day, 1)) {
+    const visitRows: unknown[][] = [];
+    const loanRows: unknown[][] = [];
+    const { year, month, day: dayOfMonth } = zonedParts(day);
+    for (let h = 0; h < 24; h++) {
+      const hourStart = zonedTime(year, month - 1, dayOfMonth, h);
+      const count = poisson(scenarioRatePerHour(scenario, hourStart));
+      for (let i = 0; i < count; i++) {
+        const at = new Date(hourStart.getTime() + Math.random() * HOUR_MS);
+        const v = nextVisitor(at);
+        visitRows.push([v.member_id, v.member_name, v.institution, v.room_code, v.checkin_date, batch]);
+        if (!itemCodes.length || Math.random() >= loanRatio) continue;
+        const returnedAt = new Date(at.getTime() + (1 + Math.random() * 13) * 24 * HOUR_MS);
+        const returned = returnedAt < new Date();
+        loanRows.push([
+          itemCodes[Math.floor(Math.random() * itemCodes.length)],
+          memberIds.length ? memberIds[Math.floor(Math.random() * memberIds.length)] : v.member_id,
+          formatDay(at),
+          formatDay(addDays(at, LOAN_PERIOD_DAYS)),
+          1,
+          returned ? 1 : 0,
+          returned ? formatDay(returnedAt) : null,
+          at,
+          returned ? returnedAt : at,
+          batch
+        ]);
+      }
+    }
+    visits += visitRows.length;
+    loans += loanRows.length;
+    if (dryRun) continue;
+    await insertChunks('INSERT INTO visitor_count (member_id, member_name, institution, room_code, checkin_date, synthetic_batch) VALUES ?', visitRows);
+    await insertChunks('INSERT INTO loan (item_code, member_id, loan_date, due_date, is_lent, is_return, return_date, input_date, last_update, synthetic_batch) VALUES ?', loanRows);
+  }
+
+  console.log(`✅ ${dryRun ? 'Would insert' : 'Inserted'} ${visits} visits and ${loans} loans (batch ${batch})`);
+  if (!dryRun) console.log('Aggregates refresh with the next daily job, or restart the server to prewarm now.');
+}
+
+(async () => {
+  const args = parseArgs(process.argv.slice(2));
+  try {
+    if (args.purge) {
+      const batch = typeof args.purge === 'string' ? args.purge : null;
+      await requireTagColumn('visitor_count');
+      const visits = await purge('visitor_count', batch);
+      const loans = (await hasTagColumn('loan')) ? await purge('loan', batch) : 0;
+      console.log(`✅ Purged ${visits} visits and ${loans} loans (${batch ? `batch ${batch}` : 'all synthetic batches'})`);
+    } else {
+      // Faculty codes for the generated members; falls back to staff-style ids when unavailable
+      try {
+        await initAuthSequelize();
+        await loadFacultyReference();
+      } catch (e) {
+        console.warn('[backfill] faculty reference unavailable, members will have no fakultas', e);
+      }
+      await backfill(args);
+    }
+  } catch (e: any) {
+    console.error('❌ Backfill failed:', e.message || e);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+    process.exit();
+  }
+})();
@@ -0,0 +1,153 @@
+import { Op, type WhereOptions } from 'sequelize';
+import { Anomaly, type AnomalyAttributes, type AnomalyMetric } from '../models/Anomaly.js';
+import { getVisitorCountsInRange } from './visitorService.js';
+import { getLoanCountsInRange } from './bookService.js';
+import { formatDay, normalizeRange, type Bucket, type DateRange } from '../utils/dateBuckets.js';
+import { addDays, startOfDay } from '../utils/timezone.js';
+
+// Flags days whose count deviates strongly from the same weekday in the previous weeks.
+// Runs from the daily visitor / books jobs over the last ANOMALY_SCAN_DAYS completed days,
+// so a day missed by one run (server down, DB unreachable) is still picked up by the next.
+
+export const ANOMALY_METRICS: readonly AnomalyMetric[] = ['visitors', 'loans'];
+
+const Z_THRESHOLD = Number(process.env.ANOMALY_Z_THRESHOLD || 3);
+const SCAN_DAYS = Number(process.env.ANOMALY_SCAN_DAYS || 7);
+const BASELINE_WEEKS = Number(process.env.ANOMALY_BASELINE_WEEKS || 8);
+// Weekdays whose baseline mean is below this are treated as "closed" and never flagged
+const MIN_BASELINE = Number(process.env.ANOMALY_MIN_BASELINE || 5);
+// Minimum same-weekday samples needed before a day can be judged
+const MIN_SAMPLES = 4;
+
+const loaders: Record<AnomalyMetric, (range: DateRange) => Promise<Bucket[]>> = {
+  visitors: async range => (await getVisitorCountsInRange(range, 'day')).buckets,
+  loans: range => getLoanCountsInRange(range, 'day')
+};
+
+export interface DetectedAnomaly {
+  day: string;
+  value: number;
+  expected: number;
+  stddev: number;
+  z_score: number;
+  direction: 'drop' | 'spike';
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Scores the trailing `scanDays` entries of a daily series against the same weekday
+// in up to `baselineWeeks` preceding weeks. The deviation is floored at sqrt(mean)
+// (Poisson noise) so very regular weekdays do not turn small wobbles into huge z-scores.
+export function detectDailyAnomalies(series: Bucket[], scanDays = SCAN_DAYS, baselineWeeks = BASELINE_WEEKS, threshold = Z_THRESHOLD): DetectedAnomaly[] {
+  const found: DetectedAnomaly[] = [];
+  for (let i = Math.max(0, series.length - scanDays); i < series.length; i++) {
+    const point = series[i];
+    if (!point) continue;
+    const baseline: number[] = [];
+    for (let k = 1; k <= baselineWeeks; k++) {
+      const prev = series[i - 7 * k];
+      if (prev) baseline.push(prev.total);
+    }
+    if (baseline.length < MIN_SAMPLES) continue;
+    const mean = baseline.reduce((a, b) => a + b, 0) / baseline.length;
+    if (mean < MIN_BASELINE) continue;
+    const variance = baseline.reduce((a, b) => a + (b - mean) * (b - mean), 0) / baseline.length;
+    const sd = Math.max(Math.sqrt(variance), Math.sqrt(mean));
+    const z = (point.total - mean) / sd;
+    if (Math.abs(z) < threshold) continue;
+    found.push({
+      day: point.bucket,
+      value: point.total,
+      expected: round2(mean),
+      stddev: round2(sd),
+      z_score: round2(z),
+      direction: z < 0 ? 'drop' : 'spike'
+    });
+  }
+  return found;
+}
+
+export interface AnomalyListFilter {
+  metric?: AnomalyMetric;
+  from?: string;
+  to?: string;
+  status?: 'open' | 'acknowledged' | 'all';
+  limit?: number;
+}
+
+export class AnomalyService {
+  // Detects anomalies for the last SCAN_DAYS completed days and syncs them to the anomalies table.
+  // Existing rows keep their acknowledgement; unacknowledged rows that no longer qualify
+  // (e.g. late-arriving data filled the gap) are removed.
+  static async scan(metric: AnomalyMetric): Promise<DetectedAnomaly[]> {
+    const yesterday = addDays(startOfDay(), -1);
+    const first = addDays(yesterday, -(SCAN_DAYS - 1) - BASELINE_WEEKS * 7);
+    const { range } = normalizeRange(formatDay(first), formatDay(yesterday));
+    if (!range) throw new Error('invalid anomaly scan range');
+
+    const series = await loaders[metric](range);
+    const detected = detectDailyAnomalies(series);
+    const scanFrom = series[Math.max(0, series.length - SCAN_DAYS)]?.bucket || range.to;
+
+    for (const a of detected) {
+      // INSERT ... ON DUPLICATE KEY UPDATE on (metric, day): every replica scans at boot, so two
+      // may write the same day at once. Only the passed columns are updated (acknowledgement kept).
+      const [, created] = await Anomaly.upsert({ metric, ...a, updated_at: new Date() });
+      if (created) {
+        console.warn(`[anomaly] ${metric} ${a.day} ${a.direction} value=${a.value} expected≈${a.expected} z=${a.z_score}`);
+      }
+    }
+    await Anomaly.destroy({
+      where: {
+        metric,
+        acknowledged: false,
+        day: { [Op.gte]: scanFrom, [Op.lte]: range.to, [Op.notIn]: detected.map(a => a.day) }
+      }
+    });
+    return detected;
+  }
+
+  static async list(filter: AnomalyListFilter = {}) {
+    const where: WhereOptions<AnomalyAttributes> = {};
+    if (filter.metric) where.metric = filter.metric;
+    if (filter.from || filter.to) {
+      where.day = {
+        ...(filter.from ? { [Op.gte]: filter.from } : {}),
+        ...(filter.to ? { [Op.lte]: filter.to } : {})
+      };
+    }
+    if (filter.status === 'open') where.acknowledged = false;
+    if (filter.status === 'acknowledged') where.acknowledged = true;
+    const rows = await Anomaly.findAll({
+      where,
+      order: [['day', 'DESC'], ['metric', 'ASC']],
+      limit: filter.limit || 100
+    });
+    return rows.map(r => r.toJSON());
+  }
+
+  static async acknowledge(id: number, username: string, note?: string | null) {
+    const row = await Anomaly.findByPk(id);
+    if (!row) return null;
+    row.acknowledged = true;
+    row.acknowledged_by = username;
+    row.acknowledged_at = new Date();
+    if (note !== undefined) row.note = note || null;
+    row.updated_at = new Date();
+    await row.save();
+    return row.toJSON();
+  }
+}
+
+// Cron helper: a failing scan (e.g. dashboard DB down) must not break the cache refresh around it.
+export async function runAnomalyScan(metric: AnomalyMetric) {
+  try {
+    const start = Date.now();
+    const detected = await AnomalyService.scan(metric);
+    console.log(`[anomaly] ${metric} scan flagged=${detected.length} in ${Date.now() - start}ms`);
+  } catch (e) {
+    console.error(`[anomaly] ${metric} scan error`, e);
+  }
+}
+
+export default AnomalyService;
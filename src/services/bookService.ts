@@ -1,4 +1,10 @@
-import { DataTypes, fn, col, Op } from 'sequelize';
+import { DataTypes, QueryTypes, fn, col, literal, Op, where as sqlWhere } from 'sequelize';
+import { GRANULARITIES, formatDay, sqlBucketExpr, toDayString, zeroFill, type Bucket, type DateRange, type Granularity } from '../utils/dateBuckets.js';
+import { addDays, startOfDay, startOfMonth, startOfYear } from '../utils/timezone.js';
+import { OVERDUE_AGING, agingSql } from '../utils/overdueAging.js';
+import { searchTerms, type BookSearchField } from '../utils/bookSearch.js';
+import { facultyCodeSql, getFakultasName } from './facultyService.js';
+import { syntheticFilter, type SyntheticFilter } from './syntheticData.js';
 
 // Force use of Sequelize only (no raw SQL fallback as per request)
 const USE_SEQUELIZE = true;
@@ -15,24 +21,42 @@ async function getModels() {
     const { sequelize } = await import('../db/sequelize.js');
     biblioModelRef = biblioModelRef || sequelize.define('biblio', {
       biblio_id: { type: DataTypes.INTEGER, primaryKey: true },
-      title: { type: DataTypes.STRING }
+      title: { type: DataTypes.STRING },
+      edition: { type: DataTypes.STRING },
+      isbn_issn: { type: DataTypes.STRING },
+      publisher_id: { type: DataTypes.INTEGER },
+      publish_year: { type: DataTypes.STRING },
+      classification: { type: DataTypes.STRING },
+      call_number: { type: DataTypes.STRING },
+      notes: { type: DataTypes.TEXT },
+      gmd_id: { type: DataTypes.INTEGER },
+      language_id: { type: DataTypes.STRING }
     }, { tableName: 'biblio', timestamps: false });
     itemModelRef = itemModelRef || sequelize.define('item', {
       item_id: { type: DataTypes.INTEGER, primaryKey: true },
       biblio_id: { type: DataTypes.INTEGER },
-      item_code: { type: DataTypes.STRING }
+      item_code: { type: DataTypes.STRING },
+      call_number: { type: DataTypes.STRING },
+      location_id: { type: DataTypes.STRING },
+      coll_type_id: { type: DataTypes.INTEGER },
+      item_status_id: { type: DataTypes.STRING }
     }, { tableName: 'item', timestamps: false });
     loanModelRef = loanModelRef || sequelize.define('loan', {
       loan_id: { type: DataTypes.INTEGER, primaryKey: true },
       item_code: { type: DataTypes.STRING },
       loan_date: { type: DataTypes.DATE },
+      due_date: { type: DataTypes.DATE },
+      return_date: { type: DataTypes.DATE },
       is_lent: { type: DataTypes.TINYINT },
       is_return: { type: DataTypes.TINYINT },
-      member_id: { type: DataTypes.INTEGER }
+      member_id: { type: DataTypes.INTEGER },
+      synthetic_batch: { type: DataTypes.STRING } // backfill label, NULL for real loans (column from database/synthetic_data.sql)
     }, { tableName: 'loan', timestamps: false });
     memberModelRef = memberModelRef || sequelize.define('member', {
       member_id: { type: DataTypes.INTEGER, primaryKey: true },
-      member_name: { type: DataTypes.STRING }
+      member_name: { type: DataTypes.STRING },
+      member_email: { type: DataTypes.STRING },
+      member_phone: { type: DataTypes.STRING }
     }, { tableName: 'member', timestamps: false });
   }
   if (!associationsSet && biblioModelRef && itemModelRef && loanModelRef && memberModelRef) {
@@ -79,13 +103,14 @@ export interface TopBorrower {
 export async function getTopBorrowedBooks(limit = 10): Promise<TopBorrowedBook[]> {
   const { Loan, Item, Biblio } = await getModels();
   if (!Loan || !Item || !Biblio) throw new Error('Sequelize not initialized for top borrowed books');
+  const synthetic = await syntheticFilter('loan');
   const rows = await Loan.findAll({
     attributes: [
       [col('item.biblio_id'), 'biblio_id'],
       [col('item->biblio.title'), 'title'],
       [fn('COUNT', col('loan_id')), 'total_loans']
     ],
-    where: { is_lent: 1 },
+    where: { is_lent: 1, ...synthetic.where },
     include: [{
       model: Item,
       attributes: [],
@@ -103,13 +128,11 @@ export async function getTopBorrowedBooks(limit = 10): Promise<TopBorrowedBook[]
   }));
 }
 
-// Top borrowed for current month (loan_date in current calendar month)
-export async function getTopBorrowedBooksThisMonth(limit = 10): Promise<TopBorrowedBook[]> {
+// Top borrowed books with loan_date in [start, end)
+export async function getTopBorrowedBooksBetween(start: Date, end: Date, limit = 10): Promise<TopBorrowedBook[]> {
   const { Loan, Item, Biblio } = await getModels();
-  if (!Loan || !Item || !Biblio) throw new Error('Sequelize not initialized for top borrowed month');
-  const now = new Date();
-  const startMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  if (!Loan || !Item || !Biblio) throw new Error('Sequelize not initialized for top borrowed books');
+  const synthetic = await syntheticFilter('loan');
   const rows = await Loan.findAll({
     attributes: [
       [col('item.biblio_id'), 'biblio_id'],
@@ -118,7 +141,8 @@ export async function getTopBorrowedBooksThisMonth(limit = 10): Promise<TopBorro
     ],
     where: {
       is_lent: 1,
-      loan_date: { [Op.gte]: startMonth, [Op.lt]: nextMonth }
+      loan_date: { [Op.gte]: start, [Op.lt]: end },
+      ...synthetic.where
     },
     include: [{
       model: Item,
@@ -137,96 +161,600 @@ export async function getTopBorrowedBooksThisMonth(limit = 10): Promise<TopBorro
   }));
 }
 
+// Top borrowed for current month (loan_date in current calendar month)
+export async function getTopBorrowedBooksThisMonth(limit = 10): Promise<TopBorrowedBook[]> {
+  const startMonth = startOfMonth();
+  const nextMonth = startOfMonth(new Date(), 1);
+  return getTopBorrowedBooksBetween(startMonth, nextMonth, limit);
+}
+
 // Top borrowed for current year
 export async function getTopBorrowedBooksThisYear(limit = 10): Promise<TopBorrowedBook[]> {
-  const { Loan, Item, Biblio } = await getModels();
-  if (!Loan || !Item || !Biblio) throw new Error('Sequelize not initialized for top borrowed year');
-  const now = new Date();
-  const startYear = new Date(now.getFullYear(), 0, 1);
-  const nextYear = new Date(now.getFullYear() + 1, 0, 1);
+  const startYear = startOfYear();
+  const nextYear = startOfYear(new Date(), 1);
+  return getTopBorrowedBooksBetween(startYear, nextYear, limit);
+}
+
+// Top borrowers with loan_date in [start, end)
+export async function getTopBorrowersBetween(start: Date, end: Date, limit = 10): Promise<TopBorrower[]> {
+  const { Loan, Member } = await getModels();
+  if (!Loan || !Member) throw new Error('Sequelize not initialized for top borrowers');
+  const synthetic = await syntheticFilter('loan');
   const rows = await Loan.findAll({
     attributes: [
-      [col('item.biblio_id'), 'biblio_id'],
-      [col('item->biblio.title'), 'title'],
+      [col('member.member_id'), 'member_id'],
+      [col('member.member_name'), 'member_name'],
       [fn('COUNT', col('loan_id')), 'total_loans']
     ],
     where: {
       is_lent: 1,
-      loan_date: { [Op.gte]: startYear, [Op.lt]: nextYear }
+      loan_date: { [Op.gte]: start, [Op.lt]: end },
+      ...synthetic.where
     },
-    include: [{
-      model: Item,
-      attributes: [],
-      include: [{ model: Biblio, attributes: [] }]
-    }],
-    group: ['item.biblio_id', 'item->biblio.biblio_id', 'item->biblio.title'],
+    include: [{ model: Member, attributes: [] }],
+    group: ['member.member_id', 'member.member_name'],
     order: [[fn('COUNT', col('loan_id')), 'DESC']],
     limit,
     raw: true
   });
   return (rows as any[]).map(r => ({
-    biblio_id: Number(r.biblio_id),
-    title: r.title,
+    member_id: Number(r.member_id),
+    member_name: r.member_name,
     total_loans: Number(r.total_loans)
   }));
 }
 
 // Top borrowers current month
 export async function getTopBorrowersThisMonth(limit = 10): Promise<TopBorrower[]> {
-  const { Loan, Member } = await getModels();
-  if (!Loan || !Member) throw new Error('Sequelize not initialized for top borrowers month');
-  const now = new Date();
-  const startMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const startMonth = startOfMonth();
+  const nextMonth = startOfMonth(new Date(), 1);
+  return getTopBorrowersBetween(startMonth, nextMonth, limit);
+}
+
+// Top borrowers current year
+export async function getTopBorrowersThisYear(limit = 10): Promise<TopBorrower[]> {
+  const startYear = startOfYear();
+  const nextYear = startOfYear(new Date(), 1);
+  return getTopBorrowersBetween(startYear, nextYear, limit);
+}
+
+// Total loans with loan_date in [start, end)
+export async function countLoansBetween(start: Date, end: Date): Promise<number> {
+  const { Loan } = await getModels();
+  if (!Loan) throw new Error('Sequelize not initialized for loan count');
+  const synthetic = await syntheticFilter('loan');
+  return Loan.count({ where: { is_lent: 1, loan_date: { [Op.gte]: start, [Op.lt]: end }, ...synthetic.where } });
+}
+
+// Loans per biblio in [start, end), restricted to the given biblio ids (used for period comparison)
+export async function getLoanCountsByBiblio(start: Date, end: Date, biblioIds: number[]): Promise<Map<number, number>> {
+  const { Loan, Item } = await getModels();
+  if (!Loan || !Item) throw new Error('Sequelize not initialized for loan counts by biblio');
+  if (!biblioIds.length) return new Map();
+  const synthetic = await syntheticFilter('loan');
   const rows = await Loan.findAll({
     attributes: [
-      [col('member.member_id'), 'member_id'],
-      [col('member.member_name'), 'member_name'],
+      [col('item.biblio_id'), 'biblio_id'],
       [fn('COUNT', col('loan_id')), 'total_loans']
     ],
     where: {
       is_lent: 1,
-      loan_date: { [Op.gte]: startMonth, [Op.lt]: nextMonth }
+      loan_date: { [Op.gte]: start, [Op.lt]: end },
+      '$item.biblio_id$': { [Op.in]: biblioIds },
+      ...synthetic.where
     },
-    include: [{ model: Member, attributes: [] }],
-    group: ['member.member_id', 'member.member_name'],
-    order: [[fn('COUNT', col('loan_id')), 'DESC']],
-    limit,
+    include: [{ model: Item, attributes: [] }],
+    group: ['item.biblio_id'],
     raw: true
   });
-  return (rows as any[]).map(r => ({
-    member_id: Number(r.member_id),
-    member_name: r.member_name,
-    total_loans: Number(r.total_loans)
-  }));
+  return new Map((rows as any[]).map(r => [Number(r.biblio_id), Number(r.total_loans)]));
 }
 
-// Top borrowers current year
-export async function getTopBorrowersThisYear(limit = 10): Promise<TopBorrower[]> {
-  const { Loan, Member } = await getModels();
-  if (!Loan || !Member) throw new Error('Sequelize not initialized for top borrowers year');
-  const now = new Date();
-  const startYear = new Date(now.getFullYear(), 0, 1);
-  const nextYear = new Date(now.getFullYear() + 1, 0, 1);
+// Loans per member in [start, end), restricted to the given member ids
+export async function getLoanCountsByMember(start: Date, end: Date, memberIds: number[]): Promise<Map<number, number>> {
+  const { Loan } = await getModels();
+  if (!Loan) throw new Error('Sequelize not initialized for loan counts by member');
+  if (!memberIds.length) return new Map();
+  const synthetic = await syntheticFilter('loan');
   const rows = await Loan.findAll({
     attributes: [
-      [col('member.member_id'), 'member_id'],
-      [col('member.member_name'), 'member_name'],
+      'member_id',
       [fn('COUNT', col('loan_id')), 'total_loans']
     ],
     where: {
       is_lent: 1,
-      loan_date: { [Op.gte]: startYear, [Op.lt]: nextYear }
+      loan_date: { [Op.gte]: start, [Op.lt]: end },
+      member_id: { [Op.in]: memberIds },
+      ...synthetic.where
     },
-    include: [{ model: Member, attributes: [] }],
-    group: ['member.member_id', 'member.member_name'],
-    order: [[fn('COUNT', col('loan_id')), 'DESC']],
+    group: ['member_id'],
+    raw: true
+  });
+  return new Map((rows as any[]).map(r => [Number(r.member_id), Number(r.total_loans)]));
+}
+
+// Rows per bucket of `column` inside [range.start, range.end), zero-filled.
+async function countLoansPerBucket(column: 'loan_date' | 'return_date', flag: 'is_lent' | 'is_return', range: DateRange, granularity: Granularity): Promise<Bucket[]> {
+  const { Loan } = await getModels();
+  if (!Loan) throw new Error('Sequelize not initialized for loan counts');
+  const synthetic = await syntheticFilter('loan');
+  const bucketExpr = sqlBucketExpr(column, granularity);
+  const rows = await Loan.findAll({
+    attributes: [
+      [literal(bucketExpr), 'bucket'],
+      [fn('COUNT', col('loan_id')), 'total']
+    ],
+    where: {
+      [flag]: 1,
+      [column]: { [Op.gte]: range.start, [Op.lt]: range.end },
+      ...synthetic.where
+    },
+    group: [literal(bucketExpr)],
+    raw: true
+  });
+  return zeroFill(range.start, range.end, granularity, (rows as any[]).map(r => ({ bucket: String(r.bucket), total: Number(r.total) })));
+}
+
+// Loan counts per bucket (loan_date) inside [range.start, range.end), zero-filled.
+export async function getLoanCountsInRange(range: DateRange, granularity: Granularity): Promise<Bucket[]> {
+  return countLoansPerBucket('loan_date', 'is_lent', range, granularity);
+}
+
+// SLiMS stores loan_date / return_date as DATE, so there is no hourly circulation series
+export const LOAN_GRANULARITIES = GRANULARITIES.filter((g): g is Exclude<Granularity, 'hour'> => g !== 'hour');
+
+export interface CirculationBucket {
+  bucket: string;
+  loans: number;   // loans with loan_date in the bucket
+  returns: number; // loans returned (is_return = 1) with return_date in the bucket
+}
+
+export interface LoanCirculationRange {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  total_loans: number;
+  total_returns: number;
+  buckets: CirculationBucket[];
+}
+
+// Loans and returns per bucket for an arbitrary window, the circulation counterpart of getVisitorCountsInRange.
+export async function getLoanCirculationInRange(range: DateRange, granularity: Granularity): Promise<LoanCirculationRange> {
+  const [loans, returns] = await Promise.all([
+    countLoansPerBucket('loan_date', 'is_lent', range, granularity),
+    countLoansPerBucket('return_date', 'is_return', range, granularity)
+  ]);
+  const returnsByBucket = new Map(returns.map(b => [b.bucket, b.total]));
+  const buckets = loans.map(b => ({ bucket: b.bucket, loans: b.total, returns: returnsByBucket.get(b.bucket) || 0 }));
+  return {
+    from: range.from,
+    to: range.to,
+    granularity,
+    total_loans: buckets.reduce((sum, b) => sum + b.loans, 0),
+    total_returns: buckets.reduce((sum, b) => sum + b.returns, 0),
+    buckets
+  };
+}
+
+// ---- Real-time circulation (books fast loop) ----
+
+export interface CirculationToday {
+  date: string;          // YYYY-MM-DD (library time)
+  loans_today: number;   // loan_date today
+  returns_today: number; // returned with return_date today
+  on_loan: number;       // items currently out (is_lent = 1, is_return = 0)
+}
+
+// Three indexed counts instead of one pass over the whole loan table
+export async function getCirculationToday(): Promise<CirculationToday> {
+  const { Loan } = await getModels();
+  if (!Loan) throw new Error('Sequelize not initialized for circulation counters');
+  const synthetic = await syntheticFilter('loan');
+  const start = startOfDay();
+  const end = addDays(start, 1);
+  const [loansToday, returnsToday, onLoan] = await Promise.all([
+    Loan.count({ where: { is_lent: 1, loan_date: { [Op.gte]: start, [Op.lt]: end }, ...synthetic.where } }),
+    Loan.count({ where: { is_return: 1, return_date: { [Op.gte]: start, [Op.lt]: end }, ...synthetic.where } }),
+    Loan.count({ where: { is_lent: 1, is_return: 0, ...synthetic.where } })
+  ]);
+  return { date: formatDay(start), loans_today: loansToday, returns_today: returnsToday, on_loan: onLoan };
+}
+
+// ---- Overdue loans ----
+// A loan is overdue while it is still out (is_lent = 1, is_return = 0) and due_date is before
+// today (library time). Loans have no institution column, so fakultas comes from the NIM.
+
+export interface OverdueAgingBucket {
+  label: string;
+  min_days: number;
+  max_days: number | null; // null = open ended
+  total: number;
+}
+
+export interface OverdueFacultyCount {
+  institution: string | null; // fakultas code (null = member ID is not a NIM)
+  fakultas: string | null;
+  total: number;
+}
+
+export interface OverdueSummary {
+  as_of: string;    // YYYY-MM-DD
+  total: number;    // overdue loans
+  borrowers: number; // distinct members with at least one overdue loan
+  aging: OverdueAgingBucket[];
+  by_fakultas: OverdueFacultyCount[];
+}
+
+export interface OverdueLoan {
+  loan_id: number;
+  item_code: string;
+  biblio_id: number | null;
+  title: string | null;
+  member_id: string;
+  member_name: string | null;
+  member_email: string | null;
+  member_phone: string | null;
+  fakultas: string | null;
+  loan_date: string; // YYYY-MM-DD
+  due_date: string;  // YYYY-MM-DD
+  days_overdue: number;
+}
+
+export interface OverdueLoanQuery {
+  page?: number;
+  limit?: number;
+  fakultas?: string | null; // fakultas code
+  min_days?: number;
+}
+
+// today is a formatDay() value, safe to inline
+const daysOverdueSql = (today: string) => `DATEDIFF('${today}', \`loan\`.\`due_date\`)`;
+const loanFacultySql = () => facultyCodeSql('NULL', '`loan`.`member_id`');
+
+function overdueWhere(synthetic: SyntheticFilter) {
+  return { is_lent: 1, is_return: 0, due_date: { [Op.lt]: startOfDay() }, ...synthetic.where };
+}
+
+export async function getOverdueSummary(): Promise<OverdueSummary> {
+  const { Loan } = await getModels();
+  if (!Loan) throw new Error('Sequelize not initialized for overdue loans');
+  const synthetic = await syntheticFilter('loan');
+  const today = formatDay(new Date());
+  const days = daysOverdueSql(today);
+  const [totals, faculties] = await Promise.all([
+    Loan.findAll({
+      attributes: [
+        [fn('COUNT', col('loan_id')), 'total'],
+        [fn('COUNT', fn('DISTINCT', col('member_id'))), 'borrowers'],
+        ...OVERDUE_AGING.map(b => [
+          literal(`SUM(${agingSql(days, b)})`),
+          `aging_${b.min_days}`
+        ])
+      ],
+      where: overdueWhere(synthetic),
+      raw: true
+    }),
+    Loan.findAll({
+      attributes: [[literal(loanFacultySql()), 'institution_code'], [fn('COUNT', col('loan_id')), 'total']],
+      where: overdueWhere(synthetic),
+      group: ['institution_code'],
+      order: [[fn('COUNT', col('loan_id')), 'DESC']],
+      raw: true
+    })
+  ]);
+  const t = (totals as any[])[0] || {};
+  return {
+    as_of: today,
+    total: Number(t.total || 0),
+    borrowers: Number(t.borrowers || 0),
+    aging: OVERDUE_AGING.map(b => ({ ...b, total: Number(t[`aging_${b.min_days}`] || 0) })),
+    by_fakultas: (faculties as any[]).map(r => ({
+      institution: r.institution_code,
+      fakultas: getFakultasName(r.institution_code),
+      total: Number(r.total)
+    }))
+  };
+}
+
+// Paginated overdue loans, longest overdue first (circulation staff follow-up list)
+export async function getOverdueLoans(query: OverdueLoanQuery = {}): Promise<{ total: number; page: number; limit: number; loans: OverdueLoan[] }> {
+  const { Loan, Item, Biblio, Member } = await getModels();
+  if (!Loan || !Item || !Biblio || !Member) throw new Error('Sequelize not initialized for overdue loans');
+  const synthetic = await syntheticFilter('loan');
+  const page = query.page ?? 1;
+  const limit = query.limit ?? 50;
+  const today = formatDay(new Date());
+  const conditions: any[] = [overdueWhere(synthetic)];
+  if (query.fakultas) conditions.push(sqlWhere(literal(loanFacultySql()), query.fakultas));
+  if (query.min_days) conditions.push(sqlWhere(literal(daysOverdueSql(today)), { [Op.gte]: query.min_days }));
+  const where = { [Op.and]: conditions };
+  const [total, rows] = await Promise.all([
+    Loan.count({ where }),
+    Loan.findAll({
+      attributes: [
+        'loan_id',
+        'item_code',
+        'member_id',
+        'loan_date',
+        'due_date',
+        [col('item.biblio_id'), 'biblio_id'],
+        [col('item->biblio.title'), 'title'],
+        [col('member.member_name'), 'member_name'],
+        [col('member.member_email'), 'member_email'],
+        [col('member.member_phone'), 'member_phone'],
+        [literal(daysOverdueSql(today)), 'days_overdue']
+      ],
+      where,
+      include: [
+        { model: Item, attributes: [], include: [{ model: Biblio, attributes: [] }] },
+        { model: Member, attributes: [] }
+      ],
+      order: [[literal('days_overdue'), 'DESC'], ['loan_id', 'ASC']],
+      limit,
+      offset: (page - 1) * limit,
+      raw: true
+    })
+  ]);
+  return {
+    total,
+    page,
+    limit,
+    loans: (rows as any[]).map(r => ({
+      loan_id: Number(r.loan_id),
+      item_code: r.item_code,
+      biblio_id: r.biblio_id === null ? null : Number(r.biblio_id),
+      title: r.title,
+      member_id: String(r.member_id),
+      member_name: r.member_name,
+      member_email: r.member_email || null,
+      member_phone: r.member_phone || null,
+      fakultas: getFakultasName(null, String(r.member_id)),
+      loan_date: toDayString(r.loan_date),
+      due_date: toDayString(r.due_date),
+      days_overdue: Number(r.days_overdue)
+    }))
+  };
+}
+
+
+// ---- Catalogue search / book detail ----
+// Authors and subjects live in the SLiMS link tables (biblio_author -> mst_author,
+// biblio_topic -> mst_topic) and reservations in reserve, none of which are modelled here,
+// so those parts go through sequelize.query with replacements (search SQL: utils/bookSearch).
+
+export interface BookSearchQuery {
+  q: string;
+  field?: BookSearchField;
+  page?: number;
+  limit?: number;
+}
+
+export interface BookSearchHit {
+  biblio_id: number;
+  title: string;
+  authors: string[];
+  isbn_issn: string | null;
+  publish_year: string | null;
+  call_number: string | null;
+  items: number;     // copies
+  available: number; // copies that can be borrowed right now
+  score: number;
+}
+
+export interface BookSearchResult {
+  q: string;
+  field: BookSearchField;
+  total: number;
+  page: number;
+  limit: number;
+  results: BookSearchHit[];
+}
+
+export type CopyStatus = 'available' | 'on_loan' | 'reserved' | 'unavailable';
+
+export interface BookCopy {
+  item_id: number;
+  item_code: string;
+  call_number: string | null;
+  location: string | null;
+  collection_type: string | null;
+  status: CopyStatus;
+  status_note: string | null; // SLiMS item status name (e.g. Repair, Missing) for unavailable copies
+  due_date: string | null;    // YYYY-MM-DD, only for copies on loan
+  reservations: number;
+}
+
+export interface BookDetail {
+  biblio_id: number;
+  title: string;
+  edition: string | null;
+  authors: string[];
+  subjects: string[];
+  isbn_issn: string | null;
+  publisher: string | null;
+  publish_year: string | null;
+  language: string | null;
+  gmd: string | null;
+  classification: string | null;
+  call_number: string | null;
+  notes: string | null;
+  total_items: number;
+  available_items: number;
+  items: BookCopy[];
+}
+
+const ACTIVE_LOAN_SQL = (itemCode: string, synthetic: SyntheticFilter) => `EXISTS (SELECT 1 FROM loan l WHERE l.item_code = ${itemCode} AND l.is_lent = 1 AND l.is_return = 0${synthetic.sql('l')})`;
+const RESERVED_SQL = (itemCode: string) => `EXISTS (SELECT 1 FROM reserve r WHERE r.item_code = ${itemCode})`;
+
+async function runQuery<T>(sql: string, replacements: Record<string, unknown>): Promise<T[]> {
+  const { sequelize } = await import('../db/sequelize.js');
+  return sequelize.query(sql, { replacements, type: QueryTypes.SELECT }) as Promise<T[]>;
+}
+
+// Titles matching q (paginated, most relevant first) with authors and copy availability
+export async function searchBooks(query: BookSearchQuery): Promise<BookSearchResult> {
+  const field = query.field ?? 'all';
+  const page = query.page ?? 1;
+  const limit = query.limit ?? 20;
+  const { joins, where, score, replacements } = searchTerms(query.q, field);
+  const [counts, rows] = await Promise.all([
+    runQuery<{ n: number }>(`SELECT COUNT(*) AS n FROM biblio b ${joins} WHERE ${where}`, replacements),
+    runQuery<any>(
+      `SELECT b.biblio_id, b.title, b.isbn_issn, b.publish_year, b.call_number, ${score} AS score
+       FROM biblio b
+       ${joins}
+       WHERE ${where}
+       ORDER BY score DESC, b.title ASC, b.biblio_id ASC
+       LIMIT :limit OFFSET :offset`,
+      { ...replacements, limit, offset: (page - 1) * limit }
+    )
+  ]);
+  const ids = rows.map(r => Number(r.biblio_id));
+  const [authors, copies] = ids.length
+    ? await Promise.all([getAuthorsByBiblio(ids), getCopyCountsByBiblio(ids)])
+    : [new Map<number, string[]>(), new Map<number, { items: number; available: number }>()];
+  return {
+    q: query.q,
+    field,
+    total: Number(counts[0]?.n || 0),
+    page,
     limit,
+    results: rows.map(r => {
+      const id = Number(r.biblio_id);
+      return {
+        biblio_id: id,
+        title: r.title,
+        authors: authors.get(id) ?? [],
+        isbn_issn: r.isbn_issn || null,
+        publish_year: r.publish_year || null,
+        call_number: r.call_number || null,
+        items: copies.get(id)?.items ?? 0,
+        available: copies.get(id)?.available ?? 0,
+        score: Number(r.score)
+      };
+    })
+  };
+}
+
+async function getAuthorsByBiblio(ids: number[]): Promise<Map<number, string[]>> {
+  const rows = await runQuery<{ biblio_id: number; author_name: string }>(
+    `SELECT ba.biblio_id, a.author_name
+     FROM biblio_author ba JOIN mst_author a ON a.author_id = ba.author_id
+     WHERE ba.biblio_id IN (:ids)
+     ORDER BY ba.biblio_id, ba.level, a.author_name`,
+    { ids }
+  );
+  const map = new Map<number, string[]>();
+  for (const r of rows) {
+    const id = Number(r.biblio_id);
+    map.set(id, [...(map.get(id) ?? []), r.author_name]);
+  }
+  return map;
+}
+
+// Same rule as the per-copy status of getBookDetail: loanable, not on loan and not reserved
+async function getCopyCountsByBiblio(ids: number[]): Promise<Map<number, { items: number; available: number }>> {
+  const synthetic = await syntheticFilter('loan');
+  const rows = await runQuery<{ biblio_id: number; items: number; available: number }>(
+    `SELECT i.biblio_id, COUNT(*) AS items,
+            SUM(COALESCE(s.no_loan, 0) = 0 AND NOT ${ACTIVE_LOAN_SQL('i.item_code', synthetic)} AND NOT ${RESERVED_SQL('i.item_code')}) AS available
+     FROM item i LEFT JOIN mst_item_status s ON s.item_status_id = i.item_status_id
+     WHERE i.biblio_id IN (:ids)
+     GROUP BY i.biblio_id`,
+    { ids }
+  );
+  return new Map(rows.map(r => [Number(r.biblio_id), { items: Number(r.items), available: Number(r.available || 0) }]));
+}
+
+// One title with all its copies. A copy is on_loan while a loan is open (is_lent = 1,
+// is_return = 0), unavailable when its SLiMS item status is flagged no_loan, reserved when a
+// reservation is waiting for it and available otherwise. Returns null for unknown ids.
+export async function getBookDetail(biblioId: number): Promise<BookDetail | null> {
+  const { Biblio, Item, Loan } = await getModels();
+  if (!Biblio || !Item || !Loan) throw new Error('Sequelize not initialized for book detail');
+  const synthetic = await syntheticFilter('loan');
+  const biblio = await Biblio.findByPk(biblioId, {
+    attributes: [
+      'biblio_id', 'title', 'edition', 'isbn_issn', 'publish_year', 'classification', 'call_number', 'notes',
+      [literal('(SELECT p.publisher_name FROM mst_publisher p WHERE p.publisher_id = `biblio`.`publisher_id`)'), 'publisher'],
+      [literal('(SELECT lg.language_name FROM mst_language lg WHERE lg.language_id = `biblio`.`language_id`)'), 'language'],
+      [literal('(SELECT g.gmd_name FROM mst_gmd g WHERE g.gmd_id = `biblio`.`gmd_id`)'), 'gmd']
+    ],
     raw: true
+  }) as any;
+  if (!biblio) return null;
+
+  const [authors, subjects, items] = await Promise.all([
+    getAuthorsByBiblio([biblioId]),
+    runQuery<{ topic: string }>(
+      `SELECT t.topic FROM biblio_topic bt JOIN mst_topic t ON t.topic_id = bt.topic_id
+       WHERE bt.biblio_id = :id ORDER BY bt.level, t.topic`,
+      { id: biblioId }
+    ),
+    Item.findAll({
+      attributes: [
+        'item_id', 'item_code', 'call_number',
+        [literal('(SELECT l.location_name FROM mst_location l WHERE l.location_id = `item`.`location_id`)'), 'location'],
+        [literal('(SELECT ct.coll_type_name FROM mst_coll_type ct WHERE ct.coll_type_id = `item`.`coll_type_id`)'), 'collection_type'],
+        [literal('(SELECT s.item_status_name FROM mst_item_status s WHERE s.item_status_id = `item`.`item_status_id`)'), 'status_name'],
+        [literal('(SELECT s.no_loan FROM mst_item_status s WHERE s.item_status_id = `item`.`item_status_id`)'), 'no_loan']
+      ],
+      where: { biblio_id: biblioId },
+      order: [['item_code', 'ASC']],
+      raw: true
+    }) as Promise<any[]>
+  ]);
+
+  const codes = items.map(i => i.item_code).filter(Boolean);
+  const [loans, reserves] = codes.length
+    ? await Promise.all([
+      Loan.findAll({
+        attributes: ['item_code', 'due_date'],
+        where: { item_code: { [Op.in]: codes }, is_lent: 1, is_return: 0, ...synthetic.where },
+        raw: true
+      }) as Promise<any[]>,
+      runQuery<{ item_code: string; total: number }>(
+        'SELECT item_code, COUNT(*) AS total FROM reserve WHERE item_code IN (:codes) GROUP BY item_code',
+        { codes }
+      )
+    ])
+    : [[], []];
+  const dueByItem = new Map<string, Date>(loans.map(l => [l.item_code, l.due_date]));
+  const reservesByItem = new Map(reserves.map(r => [r.item_code, Number(r.total)]));
+
+  const copies: BookCopy[] = items.map(i => {
+    const due = dueByItem.get(i.item_code);
+    const reservations = reservesByItem.get(i.item_code) ?? 0;
+    const status: CopyStatus = due ? 'on_loan' : Number(i.no_loan) ? 'unavailable' : reservations ? 'reserved' : 'available';
+    return {
+      item_id: Number(i.item_id),
+      item_code: i.item_code,
+      call_number: i.call_number || biblio.call_number || null,
+      location: i.location || null,
+      collection_type: i.collection_type || null,
+      status,
+      status_note: status === 'unavailable' ? i.status_name || null : null,
+      due_date: due ? toDayString(due) : null,
+      reservations
+    };
   });
-  return (rows as any[]).map(r => ({
-    member_id: Number(r.member_id),
-    member_name: r.member_name,
-    total_loans: Number(r.total_loans)
-  }));
+
+  return {
+    biblio_id: Number(biblio.biblio_id),
+    title: biblio.title,
+    edition: biblio.edition || null,
+    authors: authors.get(biblioId) ?? [],
+    subjects: subjects.map(s => s.topic),
+    isbn_issn: biblio.isbn_issn || null,
+    publisher: biblio.publisher || null,
+    publish_year: biblio.publish_year || null,
+    language: biblio.language || null,
+    gmd: biblio.gmd || null,
+    classification: biblio.classification || null,
+    call_number: biblio.call_number || null,
+    notes: biblio.notes || null,
+    total_items: copies.length,
+    available_items: copies.filter(c => c.status === 'available').length,
+    items: copies
+  };
 }
@@ -0,0 +1,156 @@
+import { QueryTypes } from 'sequelize';
+import { pool } from '../db/mysqlClient.js';
+import { getFakultasName, facultyCodeSql } from './facultyService.js';
+import { syntheticFilter, type SyntheticFilter } from './syntheticData.js';
+import { bucketKey, sqlBucketExpr, enumerateBucketKeys, formatDay, normalizeRange, type DateRange } from '../utils/dateBuckets.js';
+import { addDays, startOfMonth, zonedTime } from '../utils/timezone.js';
+
+// Retention / cohort analysis on visitor_count.member_id.
+// A member's cohort is the month of their FIRST check-in ever (rows without member_id are ignored).
+// The queries rely on derived tables, so both paths run raw SQL (pool or sequelize.query).
+
+const USE_SEQUELIZE = (process.env.USE_SEQUELIZE || 'false').toLowerCase() === 'true';
+
+async function runQuery<T>(sql: string, params: unknown[]): Promise<T[]> {
+  if (USE_SEQUELIZE) {
+    const { sequelize } = await import('../db/sequelize.js');
+    return sequelize.query(sql, { replacements: params, type: QueryTypes.SELECT }) as Promise<T[]>;
+  }
+  const [rows] = await pool.query(sql, params);
+  return rows as T[];
+}
+
+// First visits are taken from the same rows as the aggregates (SYNTHETIC_DATA_MODE)
+const firstVisitSql = (synthetic: SyntheticFilter) => `SELECT member_id, MIN(checkin_date) AS first_visit
+                         FROM visitor_count
+                         WHERE member_id IS NOT NULL AND member_id <> ''${synthetic.sql()}
+                         GROUP BY member_id`;
+
+export type SplitGranularity = 'week' | 'month';
+
+export interface CohortRetentionPoint {
+  offset: number;   // months after the cohort month (1 = next month)
+  month: string;    // YYYY-MM
+  returned: number; // cohort members with at least one check-in that month
+  rate: number;     // returned / size (0..1)
+}
+
+export interface RetentionCohort {
+  cohort: string; // YYYY-MM of first visit
+  size: number;   // first-time visitors in that month
+  retention: CohortRetentionPoint[];
+}
+
+export interface NewReturningSplit {
+  period: string;    // bucket key (week start YYYY-MM-DD or YYYY-MM)
+  active: number;    // distinct members that visited in the period
+  new: number;       // ... whose first visit ever falls in the period
+  returning: number; // ... who had visited before the period
+}
+
+export interface FacultyNewReturning {
+  institution: string | null;
+  fakultas: string | null;
+  active: number;
+  new: number;
+  returning: number;
+}
+
+const monthKey = (d: Date) => bucketKey(d, 'month');
+
+// Monthly cohorts for the last `months` months (current month included). Every cohort
+// gets a retention point for each later month up to the current one, zero-filled.
+export async function getRetentionCohorts(months = 12): Promise<RetentionCohort[]> {
+  const synthetic = await syntheticFilter();
+  const start = startOfMonth(new Date(), -(months - 1));
+  const end = startOfMonth(new Date(), 1);
+  const sql = `SELECT DATE_FORMAT(f.first_visit, '%Y-%m') AS cohort,
+                      DATE_FORMAT(v.checkin_date, '%Y-%m') AS active_month,
+                      COUNT(DISTINCT v.member_id) AS members
+               FROM (${firstVisitSql(synthetic)}) f
+               JOIN visitor_count v ON v.member_id = f.member_id
+               WHERE f.first_visit >= ? AND f.first_visit < ?
+                 AND v.checkin_date >= ? AND v.checkin_date < ?${synthetic.sql('v')}
+               GROUP BY cohort, active_month`;
+  const rows = await runQuery<{ cohort: string; active_month: string; members: number }>(sql, [start, end, start, end]);
+
+  const counts = new Map<string, Map<string, number>>();
+  for (const r of rows) {
+    const byMonth = counts.get(r.cohort) || new Map<string, number>();
+    byMonth.set(r.active_month, Number(r.members));
+    counts.set(r.cohort, byMonth);
+  }
+
+  const monthKeys = enumerateBucketKeys(start, end, 'month');
+  return monthKeys.map((cohort, idx) => {
+    const byMonth = counts.get(cohort) || new Map<string, number>();
+    const size = byMonth.get(cohort) || 0;
+    const retention = monthKeys.slice(idx + 1).map((month, i) => {
+      const returned = byMonth.get(month) || 0;
+      return { offset: i + 1, month, returned, rate: size > 0 ? Math.round((returned / size) * 10000) / 10000 : 0 };
+    });
+    return { cohort, size, retention };
+  });
+}
+
+// Default window of the new-vs-returning split: the last 12 months, current month included
+export function defaultSplitRange(): DateRange {
+  const { range } = normalizeRange(formatDay(startOfMonth(new Date(), -11)), formatDay(addDays(startOfMonth(new Date(), 1), -1)));
+  return range!;
+}
+
+// New vs returning members per week/month inside the given range.
+export async function getNewVsReturning(range: DateRange, granularity: SplitGranularity = 'month'): Promise<NewReturningSplit[]> {
+  const synthetic = await syntheticFilter();
+  const visitBucket = sqlBucketExpr('v.checkin_date', granularity);
+  const firstBucket = sqlBucketExpr('f.first_visit', granularity);
+  const sql = `SELECT ${visitBucket} AS period,
+                      COUNT(DISTINCT v.member_id) AS active,
+                      COUNT(DISTINCT CASE WHEN ${firstBucket} = ${visitBucket} THEN v.member_id END) AS new_members
+               FROM visitor_count v
+               JOIN (${firstVisitSql(synthetic)}) f ON f.member_id = v.member_id
+               WHERE v.checkin_date >= ? AND v.checkin_date < ?${synthetic.sql('v')}
+               GROUP BY period`;
+  const rows = await runQuery<{ period: string; active: number; new_members: number }>(sql, [range.start, range.end]);
+  const byPeriod = new Map(rows.map(r => [String(r.period), r]));
+  return enumerateBucketKeys(range.start, range.end, granularity).map(period => {
+    const r = byPeriod.get(period);
+    const active = Number(r?.active || 0);
+    const fresh = Number(r?.new_members || 0);
+    return { period, active, new: fresh, returning: active - fresh };
+  });
+}
+
+// New vs returning split per fakultas (institution code) for one calendar month.
+export async function getNewVsReturningByFaculty(month?: string): Promise<{ month: string; faculties: FacultyNewReturning[] }> {
+  const synthetic = await syntheticFilter();
+  let start = startOfMonth();
+  if (month) {
+    const [y, m] = month.split('-').map(Number);
+    if (y && m) start = zonedTime(y, m - 1, 1);
+  }
+  const end = startOfMonth(start, 1);
+  const sql = `SELECT ${facultyCodeSql('v.institution', 'v.member_id')} AS institution,
+                      COUNT(DISTINCT v.member_id) AS active,
+                      COUNT(DISTINCT CASE WHEN f.first_visit >= ? THEN v.member_id END) AS new_members
+               FROM visitor_count v
+               JOIN (${firstVisitSql(synthetic)}) f ON f.member_id = v.member_id
+               WHERE v.checkin_date >= ? AND v.checkin_date < ?${synthetic.sql('v')}
+               GROUP BY institution
+               ORDER BY active DESC`;
+  const rows = await runQuery<{ institution: string | null; active: number; new_members: number }>(sql, [start, start, end]);
+  return {
+    month: monthKey(start),
+    faculties: rows.map(r => {
+      const active = Number(r.active);
+      const fresh = Number(r.new_members);
+      return {
+        institution: r.institution,
+        fakultas: getFakultasName(r.institution),
+        active,
+        new: fresh,
+        returning: active - fresh
+      };
+    })
+  };
+}
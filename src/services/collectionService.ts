@@ -0,0 +1,139 @@
+import { QueryTypes } from 'sequelize';
+import { currentYear } from '../utils/timezone.js';
+
+// Composition of the collection (titles = biblio, items = copies) along the SLiMS reference
+// tables, as asked by accreditation forms. Like bookService this runs on Sequelize only;
+// the lookups join mst_* tables, so the queries go through sequelize.query.
+
+export const COLLECTION_DIMENSIONS = ['gmd', 'ddc', 'ddc-division', 'language', 'publish-year', 'location', 'collection-type'] as const;
+export type CollectionDimension = typeof COLLECTION_DIMENSIONS[number];
+
+export interface CompositionEntry {
+  key: string | null;   // reference id / class / band; null = not set or not classifiable
+  label: string | null;
+  titles: number;
+  items: number;
+}
+
+export interface CollectionComposition {
+  dimension: CollectionDimension;
+  total_titles: number;
+  total_items: number;
+  entries: CompositionEntry[];
+}
+
+interface DimensionSource {
+  level: 'biblio' | 'item'; // table the attribute lives on (b = biblio, i = item)
+  key: string;
+  label: string;
+  joins: string;
+}
+
+// Classification starting with three digits (e.g. "005.133 SUG"); anything else is unclassified
+const DDC_NUMERIC = `TRIM(b.classification) REGEXP '^[0-9]{3}'`;
+
+const SOURCES: Record<CollectionDimension, DimensionSource> = {
+  'gmd': { level: 'biblio', key: 'b.gmd_id', label: 'g.gmd_name', joins: 'LEFT JOIN mst_gmd g ON g.gmd_id = b.gmd_id' },
+  'ddc': { level: 'biblio', key: `CASE WHEN ${DDC_NUMERIC} THEN CONCAT(LEFT(TRIM(b.classification), 1), '00') END`, label: 'NULL', joins: '' },
+  'ddc-division': { level: 'biblio', key: `CASE WHEN ${DDC_NUMERIC} THEN CONCAT(LEFT(TRIM(b.classification), 2), '0') END`, label: 'NULL', joins: '' },
+  'language': { level: 'biblio', key: 'b.language_id', label: 'lg.language_name', joins: 'LEFT JOIN mst_language lg ON lg.language_id = b.language_id' },
+  'publish-year': { level: 'biblio', key: `CASE WHEN TRIM(b.publish_year) REGEXP '^[0-9]{4}$' THEN CAST(TRIM(b.publish_year) AS UNSIGNED) END`, label: 'NULL', joins: '' },
+  'location': { level: 'item', key: 'i.location_id', label: 'l.location_name', joins: 'LEFT JOIN mst_location l ON l.location_id = i.location_id' },
+  'collection-type': { level: 'item', key: 'i.coll_type_id', label: 'ct.coll_type_name', joins: 'LEFT JOIN mst_coll_type ct ON ct.coll_type_id = i.coll_type_id' }
+};
+
+// Dewey main classes
+const DDC_CLASSES: Record<string, string> = {
+  '000': 'Karya Umum',
+  '100': 'Filsafat & Psikologi',
+  '200': 'Agama',
+  '300': 'Ilmu Sosial',
+  '400': 'Bahasa',
+  '500': 'Ilmu Murni',
+  '600': 'Ilmu Terapan & Teknologi',
+  '700': 'Kesenian & Olahraga',
+  '800': 'Kesusastraan',
+  '900': 'Geografi & Sejarah'
+};
+
+// Age of the publication in years (current year - publish_year); the first bands match the
+// "terbitan 5 / 10 tahun terakhir" questions of the accreditation forms
+const PUBLISH_YEAR_BANDS = [
+  { key: '0-5', max_age: 5 },
+  { key: '6-10', max_age: 10 },
+  { key: '11-20', max_age: 20 },
+  { key: '>20', max_age: Infinity }
+];
+
+async function runQuery<T>(sql: string): Promise<T[]> {
+  const { sequelize } = await import('../db/sequelize.js');
+  return sequelize.query(sql, { type: QueryTypes.SELECT }) as Promise<T[]>;
+}
+
+function byTitlesDesc(a: CompositionEntry, b: CompositionEntry) {
+  return b.titles - a.titles || b.items - a.items;
+}
+
+function publishYearBands(rows: CompositionEntry[]): CompositionEntry[] {
+  const year = currentYear();
+  const bands: CompositionEntry[] = PUBLISH_YEAR_BANDS.map(b => ({ key: b.key, label: `${b.key} tahun`, titles: 0, items: 0 }));
+  const unknown: CompositionEntry = { key: null, label: null, titles: 0, items: 0 };
+  for (const r of rows) {
+    const age = r.key === null ? NaN : year - Number(r.key);
+    // Missing, malformed or future years (pre-orders, typos) are reported as unknown
+    const idx = Number.isNaN(age) || age < 0 ? -1 : PUBLISH_YEAR_BANDS.findIndex(b => age <= b.max_age);
+    const target = idx >= 0 ? bands[idx]! : unknown;
+    target.titles += r.titles;
+    target.items += r.items;
+  }
+  return unknown.titles || unknown.items ? [...bands, unknown] : bands;
+}
+
+export async function getCollectionComposition(dimension: CollectionDimension): Promise<CollectionComposition> {
+  const source = SOURCES[dimension];
+  const sql = source.level === 'biblio'
+    ? `SELECT ${source.key} AS k, ${source.label} AS label, COUNT(DISTINCT b.biblio_id) AS titles, COUNT(i.item_id) AS items
+       FROM biblio b
+       LEFT JOIN item i ON i.biblio_id = b.biblio_id
+       ${source.joins}
+       GROUP BY k, label`
+    : `SELECT ${source.key} AS k, ${source.label} AS label, COUNT(DISTINCT i.biblio_id) AS titles, COUNT(*) AS items
+       FROM item i
+       ${source.joins}
+       GROUP BY k, label`;
+  const rows = await runQuery<{ k: string | number | null; label: string | null; titles: number; items: number }>(sql);
+  let entries: CompositionEntry[] = rows.map(r => ({
+    key: r.k === null || r.k === '' ? null : String(r.k),
+    label: r.label,
+    titles: Number(r.titles),
+    items: Number(r.items)
+  }));
+  if (dimension === 'publish-year') {
+    entries = publishYearBands(entries);
+  } else if (dimension === 'ddc' || dimension === 'ddc-division') {
+    entries = entries
+      .map(e => ({ ...e, label: e.key ? DDC_CLASSES[`${e.key.charAt(0)}00`] ?? null : null }))
+      .sort((a, b) => (a.key === null ? 1 : b.key === null ? -1 : a.key.localeCompare(b.key)));
+  } else {
+    entries.sort(byTitlesDesc);
+  }
+  return {
+    dimension,
+    // Item-level dimensions count a title once per value, so the title total comes from the query instead of the sum
+    total_titles: source.level === 'biblio' ? entries.reduce((sum, e) => sum + e.titles, 0) : await countTitlesWithItems(),
+    total_items: entries.reduce((sum, e) => sum + e.items, 0),
+    entries
+  };
+}
+
+async function countTitlesWithItems(): Promise<number> {
+  const rows = await runQuery<{ n: number }>('SELECT COUNT(DISTINCT biblio_id) AS n FROM item');
+  return Number(rows[0]?.n || 0);
+}
+
+export async function getAllCollectionCompositions(): Promise<CollectionComposition[]> {
+  const results: CollectionComposition[] = [];
+  // Sequential: each query scans biblio / item, no need to hit the SLiMS DB with all of them at once
+  for (const dimension of COLLECTION_DIMENSIONS) results.push(await getCollectionComposition(dimension));
+  return results;
+}
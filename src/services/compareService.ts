@@ -0,0 +1,242 @@
+import { CACHE_KEYS, getJSON, setJSON } from '../cache/redisClient.js';
+import { getVisitsAndUnique, getVisitorBucketCounts, getCountsByInstitution } from './visitorService.js';
+import { getFakultasName } from './facultyService.js';
+import { getTopBorrowedBooksBetween, getTopBorrowersBetween, countLoansBetween, getLoanCountsByBiblio, getLoanCountsByMember } from './bookService.js';
+import { enumerateBucketKeys } from '../utils/dateBuckets.js';
+import { startOfDay, addDays, startOfMonth, startOfYear } from '../utils/timezone.js';
+import { comparisonWindow, delta, windowJSON, type CompareMode, type Delta, type PeriodUnit, type PeriodWindow } from '../utils/periodCompare.js';
+
+// Comparison blocks returned next to the regular (cron-cached) payloads when `?compare=` is given.
+// Each block computes current and comparison values together so the delta is self-consistent,
+// and is cached briefly since the current period is still moving.
+
+const TODAY_TTL_SECONDS = 30;
+const PERIOD_TTL_SECONDS = 300;
+
+type WindowJSON = ReturnType<typeof windowJSON>;
+
+async function cached<T extends object>(key: string, ttl: number, compute: () => Promise<T>): Promise<T & { generated_at: string }> {
+  const hit = await getJSON<T & { generated_at: string }>(key);
+  if (hit) return hit;
+  const value = { ...(await compute()), generated_at: new Date().toISOString() };
+  await setJSON(key, value, ttl);
+  return value;
+}
+
+function calendarWindow(unit: 'month' | 'year', now = new Date()): PeriodWindow {
+  if (unit === 'month') return { start: startOfMonth(now), end: startOfMonth(now, 1) };
+  return { start: startOfYear(now), end: startOfYear(now, 1) };
+}
+
+// Current window cut at "now" for display
+const elapsedWindow = (w: PeriodWindow, now: Date): PeriodWindow => ({ start: w.start, end: new Date(Math.min(now.getTime(), w.end.getTime())) });
+
+// ---- Visitors ----
+
+export interface TodayComparison {
+  mode: CompareMode;
+  current: WindowJSON;
+  previous: WindowJSON;
+  total: Delta;
+  unique: Delta;
+}
+
+export async function getTodayComparison(mode: CompareMode): Promise<TodayComparison> {
+  return cached(`${CACHE_KEYS.VISITOR_COMPARE_PREFIX}:today:${mode}`, TODAY_TTL_SECONDS, async () => {
+    const now = new Date();
+    const start = startOfDay(now);
+    const end = addDays(start, 1);
+    const current = elapsedWindow({ start, end }, now);
+    const previous = comparisonWindow({ start, end }, mode, 'day', 1, now);
+    const [cur, prev] = await Promise.all([
+      getVisitsAndUnique(current.start, current.end),
+      getVisitsAndUnique(previous.start, previous.end)
+    ]);
+    return {
+      mode,
+      current: windowJSON(current),
+      previous: windowJSON(previous),
+      total: delta(cur.total, prev.total),
+      unique: delta(cur.unique, prev.unique)
+    };
+  });
+}
+
+export type VisitorSeriesKind = 'weekly' | 'monthly' | 'yearly';
+
+// Same windows as getDailyCountsThisWeek / getMonthlyTotalsLastYear / getYearlyTotalsLast5Years
+const SERIES: Record<VisitorSeriesKind, { unit: PeriodUnit; count: number; window: (now: Date) => PeriodWindow }> = {
+  weekly: {
+    unit: 'day',
+    count: 7,
+    window: now => {
+      const end = addDays(startOfDay(now), 1);
+      return { start: addDays(end, -7), end };
+    }
+  },
+  monthly: {
+    unit: 'month',
+    count: 12,
+    window: now => ({ start: startOfMonth(now, -11), end: startOfMonth(now, 1) })
+  },
+  yearly: {
+    unit: 'year',
+    count: 5,
+    window: now => ({ start: startOfYear(now, -4), end: startOfYear(now, 1) })
+  }
+};
+
+export interface SeriesComparisonPoint extends Delta {
+  bucket: string;          // current bucket (YYYY-MM-DD / YYYY-MM / YYYY)
+  previous_bucket: string; // bucket it is compared against
+}
+
+export interface VisitorSeriesComparison {
+  mode: CompareMode;
+  current: WindowJSON;
+  previous: WindowJSON;
+  total: Delta;
+  unique: Delta;
+  series: SeriesComparisonPoint[];
+}
+
+export async function getVisitorSeriesComparison(kind: VisitorSeriesKind, mode: CompareMode): Promise<VisitorSeriesComparison> {
+  return cached(`${CACHE_KEYS.VISITOR_COMPARE_PREFIX}:${kind}:${mode}`, PERIOD_TTL_SECONDS, async () => {
+    const now = new Date();
+    const { unit, count, window } = SERIES[kind];
+    const full = window(now);
+    const current = elapsedWindow(full, now);
+    const previous = comparisonWindow(full, mode, unit, count, now);
+    const [curRows, prevRows, curTotals, prevTotals] = await Promise.all([
+      getVisitorBucketCounts(current.start, current.end, unit),
+      getVisitorBucketCounts(previous.start, previous.end, unit),
+      getVisitsAndUnique(current.start, current.end),
+      getVisitsAndUnique(previous.start, previous.end)
+    ]);
+    const curByKey = new Map(curRows.map(r => [r.bucket, r.total]));
+    const prevByKey = new Map(prevRows.map(r => [r.bucket, r.total]));
+    const prevKeys = enumerateBucketKeys(previous.start, previous.fullEnd, unit);
+    const series = enumerateBucketKeys(full.start, full.end, unit).map((bucket, i) => {
+      const previous_bucket = prevKeys[i] ?? '';
+      return { bucket, previous_bucket, ...delta(curByKey.get(bucket) || 0, prevByKey.get(previous_bucket) || 0) };
+    });
+    return {
+      mode,
+      current: windowJSON(current),
+      previous: windowJSON(previous),
+      total: delta(curTotals.total, prevTotals.total),
+      unique: delta(curTotals.unique, prevTotals.unique),
+      series
+    };
+  });
+}
+
+export interface FacultyComparisonEntry extends Delta {
+  institution: string | null;
+  fakultas: string | null;
+}
+
+export interface FacultyComparison {
+  mode: CompareMode;
+  current: WindowJSON;
+  previous: WindowJSON;
+  total: Delta;
+  faculties: FacultyComparisonEntry[];
+}
+
+// All faculties seen in either period, ordered by current count.
+export async function getFacultyComparison(period: 'month' | 'year', mode: CompareMode): Promise<FacultyComparison> {
+  return cached(`${CACHE_KEYS.VISITOR_COMPARE_PREFIX}:faculties:${period}:${mode}`, PERIOD_TTL_SECONDS, async () => {
+    const now = new Date();
+    const full = calendarWindow(period, now);
+    const current = elapsedWindow(full, now);
+    const previous = comparisonWindow(full, mode, period, 1, now);
+    const [curRows, prevRows] = await Promise.all([
+      getCountsByInstitution(current.start, current.end),
+      getCountsByInstitution(previous.start, previous.end)
+    ]);
+    const prevByInst = new Map(prevRows.map(r => [r.institution, r.total]));
+    const institutions = [...new Set([...curRows.map(r => r.institution), ...prevRows.map(r => r.institution)])];
+    const curByInst = new Map(curRows.map(r => [r.institution, r.total]));
+    const faculties = institutions
+      .map(institution => ({
+        institution,
+        fakultas: getFakultasName(institution),
+        ...delta(curByInst.get(institution) || 0, prevByInst.get(institution) || 0)
+      }))
+      .sort((a, b) => b.current - a.current);
+    const sum = (rows: { total: number }[]) => rows.reduce((acc, r) => acc + r.total, 0);
+    return {
+      mode,
+      current: windowJSON(current),
+      previous: windowJSON(previous),
+      total: delta(sum(curRows), sum(prevRows)),
+      faculties
+    };
+  });
+}
+
+// ---- Books ----
+
+export interface BookComparisonEntry extends Delta {
+  biblio_id: number;
+  title: string;
+}
+
+export interface BorrowerComparisonEntry extends Delta {
+  member_id: number;
+  member_name: string;
+}
+
+export interface LoanComparison<T> {
+  mode: CompareMode;
+  current: WindowJSON;
+  previous: WindowJSON;
+  total_loans: Delta;
+  items: T[];
+}
+
+// Current top N books of the period with their loan counts in the comparison window.
+export async function getTopBorrowedComparison(period: 'month' | 'year', mode: CompareMode, limit = 10): Promise<LoanComparison<BookComparisonEntry>> {
+  return cached(`${CACHE_KEYS.BOOK_COMPARE_PREFIX}:borrowed:${period}:${mode}:${limit}`, PERIOD_TTL_SECONDS, async () => {
+    const now = new Date();
+    const full = calendarWindow(period, now);
+    const current = elapsedWindow(full, now);
+    const previous = comparisonWindow(full, mode, period, 1, now);
+    const [top, curTotal, prevTotal] = await Promise.all([
+      getTopBorrowedBooksBetween(current.start, current.end, limit),
+      countLoansBetween(current.start, current.end),
+      countLoansBetween(previous.start, previous.end)
+    ]);
+    const prevCounts = await getLoanCountsByBiblio(previous.start, previous.end, top.map(b => b.biblio_id));
+    return {
+      mode,
+      current: windowJSON(current),
+      previous: windowJSON(previous),
+      total_loans: delta(curTotal, prevTotal),
+      items: top.map(b => ({ biblio_id: b.biblio_id, title: b.title, ...delta(b.total_loans, prevCounts.get(b.biblio_id) || 0) }))
+    };
+  });
+}
+
+export async function getTopBorrowersComparison(period: 'month' | 'year', mode: CompareMode, limit = 10): Promise<LoanComparison<BorrowerComparisonEntry>> {
+  return cached(`${CACHE_KEYS.BOOK_COMPARE_PREFIX}:borrowers:${period}:${mode}:${limit}`, PERIOD_TTL_SECONDS, async () => {
+    const now = new Date();
+    const full = calendarWindow(period, now);
+    const current = elapsedWindow(full, now);
+    const previous = comparisonWindow(full, mode, period, 1, now);
+    const [top, curTotal, prevTotal] = await Promise.all([
+      getTopBorrowersBetween(current.start, current.end, limit),
+      countLoansBetween(current.start, current.end),
+      countLoansBetween(previous.start, previous.end)
+    ]);
+    const prevCounts = await getLoanCountsByMember(previous.start, previous.end, top.map(m => m.member_id));
+    return {
+      mode,
+      current: windowJSON(current),
+      previous: windowJSON(previous),
+      total_loans: delta(curTotal, prevTotal),
+      items: top.map(m => ({ member_id: m.member_id, member_name: m.member_name, ...delta(m.total_loans, prevCounts.get(m.member_id) || 0) }))
+    };
+  });
+}
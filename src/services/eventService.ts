@@ -1,5 +1,8 @@
 import { Op } from 'sequelize';
 import { Event } from '../models/Event.js';
+import { zonedTime, formatTime } from '../utils/timezone.js';
+import { formatDay } from '../utils/dateBuckets.js';
+import { publishStreamEvent } from '../events/streamHub.js';
 
 export interface CreateEventInput {
   title: string;
@@ -9,10 +12,38 @@ export interface CreateEventInput {
   thumbnail_path?: string | null;
 }
 
+// date + time are entered as library wall-clock time (LIBRARY_TZ), whatever the server TZ is
+function parseStartsAt(date: string, time: string): Date {
+  const d = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const t = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!d || !t) throw new Error('Tanggal / jam tidak valid');
+  const [y, mo, day, h, mi] = [d[1], d[2], d[3], t[1], t[2]].map(Number) as [number, number, number, number, number];
+  if (h > 23 || mi > 59) throw new Error('Tanggal / jam tidak valid');
+  const startsAt = zonedTime(y, mo - 1, day, h, mi);
+  if (isNaN(startsAt.getTime()) || formatDay(startsAt) !== date) throw new Error('Tanggal / jam tidak valid');
+  return startsAt;
+}
+
+export interface UpcomingEventsUpdate {
+  events: any[];
+  generated_at: string;
+}
+
+// Payload of the `events.upcoming` stream topic (also its snapshot on connect)
+export async function getUpcomingEventsUpdate(): Promise<UpcomingEventsUpdate> {
+  return { events: await EventService.list(true), generated_at: new Date().toISOString() };
+}
+
+// Pushes the refreshed upcoming list to dashboards; a failure must not fail the write
+function publishUpcoming() {
+  getUpcomingEventsUpdate()
+    .then(update => publishStreamEvent('events.upcoming', update))
+    .catch(e => console.error('[event] publish upcoming failed', e));
+}
+
 export class EventService {
   static async create(data: CreateEventInput) {
-    const startsAt = new Date(`${data.date}T${data.time}:00`);
-    if (isNaN(startsAt.getTime())) throw new Error('Tanggal / jam tidak valid');
+    const startsAt = parseStartsAt(data.date, data.time);
 
     const event = await Event.create({
       title: data.title,
@@ -20,6 +51,7 @@ export class EventService {
       starts_at: startsAt,
       thumbnail_path: data.thumbnail_path || null
     });
+    publishUpcoming();
     return event.toJSON();
   }
 
@@ -50,24 +82,14 @@ export class EventService {
     if (patch.date !== undefined || patch.time !== undefined) {
       const current = event.starts_at instanceof Date ? event.starts_at : new Date(event.starts_at);
       if (isNaN(current.getTime())) throw new Error('starts_at korup');
-      let dateStr = patch.date;
-      let timeStr = patch.time;
-      if (!dateStr) {
-        // derive existing date (YYYY-MM-DD)
-        dateStr = current.toISOString().slice(0,10);
-      }
-      if (!timeStr) {
-        // derive existing time (HH:MM)
-        const h = String(current.getHours()).padStart(2,'0');
-        const m = String(current.getMinutes()).padStart(2,'0');
-        timeStr = `${h}:${m}`;
-      }
-      const newStarts = new Date(`${dateStr}T${timeStr}:00`);
-      if (isNaN(newStarts.getTime())) throw new Error('Tanggal / jam tidak valid');
-      event.starts_at = newStarts;
+      // derive missing parts from the existing start (library time)
+      const dateStr = patch.date || formatDay(current);
+      const timeStr = patch.time || formatTime(current);
+      event.starts_at = parseStartsAt(dateStr, timeStr);
     }
 
     await event.save();
+    publishUpcoming();
     return event.toJSON();
   }
 }
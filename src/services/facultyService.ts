@@ -0,0 +1,312 @@
+import { redis, CACHE_KEYS, getJSON, setJSON } from '../cache/redisClient.js';
+import { authSequelize } from '../db/authSequelize.js';
+import { Faculty } from '../models/Faculty.js';
+import { StudyProgram } from '../models/StudyProgram.js';
+import { currentYear, zonedParts } from '../utils/timezone.js';
+
+// Faculty / study program reference, managed in the dashboard DB (database/faculties.sql).
+// The full reference is small, so it is cached in Redis as one document and mirrored in memory:
+// name lookups stay synchronous for the aggregation code, and admin edits reach every instance
+// within FACULTY_REFERENCE_REFRESH_MS. The Redis copy expires after REFERENCE_TTL_SECONDS so
+// rows edited directly in SQL are picked up too.
+
+const REFRESH_MS = Number(process.env.FACULTY_REFERENCE_REFRESH_MS || 60000);
+const REFERENCE_TTL_SECONDS = 600;
+
+// Seeded when the faculties table is empty (fresh deploy: sync() creates the tables empty);
+// same list as database/faculties.sql
+const DEFAULT_FACULTIES = [
+  { code: '01', name: 'Hukum' },
+  { code: '02', name: 'Pertanian' },
+  { code: '03', name: 'Kedokteran' },
+  { code: '04', name: 'MIPA' },
+  { code: '05', name: 'Ekonomi' },
+  { code: '06', name: 'Peternakan' },
+  { code: '07', name: 'Ilmu Budaya' },
+  { code: '08', name: 'Ilmu Sosial dan Ilmu Politik' },
+  { code: '09', name: 'Teknik' },
+  { code: '10', name: 'Farmasi' },
+  { code: '11', name: 'Teknologi Pertanian' },
+  { code: '12', name: 'Kesehatan Masyarakat' },
+  { code: '13', name: 'Keperawatan' },
+  { code: '14', name: 'Kedokteran Gigi' },
+  { code: '15', name: 'Teknologi Informasi' },
+  { code: '16', name: 'Pascasarjana' }
+];
+
+// NIM layout: YY (entry year) + jenjang digit + FF (fakultas) + program digits + sequence.
+// visitor_count.institution holds FF; SQL callers use facultyCodeSql() with the same positions.
+const NIM_PATTERN = /^\d{8,}$/;
+const NIM_FACULTY_OFFSET = 3;
+const NIM_FACULTY_LENGTH = 2;
+const ACADEMIC_YEAR_START_MONTH = Number(process.env.ACADEMIC_YEAR_START_MONTH || 8);
+
+export interface StudyProgramRef {
+  id: number;
+  faculty_id: number;
+  code: string;
+  name: string;
+  jenjang: string | null;
+}
+
+export interface FacultyRef {
+  id: number;
+  code: string;
+  name: string;
+  programs: StudyProgramRef[];
+}
+
+interface FacultyReference {
+  generated_at: string;
+  faculties: FacultyRef[];
+}
+
+let byCode = new Map<string, FacultyRef>();
+let byName = new Map<string, FacultyRef>();
+let programs: (StudyProgramRef & { faculty: FacultyRef })[] = []; // longest code first
+let loadedAt: string | null = null;
+let seedChecked = false;
+
+function apply(ref: FacultyReference) {
+  byCode = new Map(ref.faculties.map(f => [f.code, f]));
+  byName = new Map(ref.faculties.map(f => [f.name.toLowerCase(), f]));
+  programs = ref.faculties
+    .flatMap(f => f.programs.map(p => ({ ...p, faculty: f })))
+    .sort((a, b) => b.code.length - a.code.length);
+  loadedAt = ref.generated_at;
+}
+
+async function buildFromDb(): Promise<FacultyReference> {
+  const [faculties, programRows] = await Promise.all([
+    Faculty.findAll({ order: [['code', 'ASC']] }),
+    StudyProgram.findAll({ order: [['code', 'ASC']] })
+  ]);
+  return {
+    generated_at: new Date().toISOString(),
+    faculties: faculties.map(f => ({
+      id: f.id,
+      code: f.code,
+      name: f.name,
+      programs: programRows
+        .filter(p => p.faculty_id === f.id)
+        .map(p => ({ id: p.id, faculty_id: p.faculty_id, code: p.code, name: p.name, jenjang: p.jenjang }))
+    }))
+  };
+}
+
+// Once per process: fills an empty faculties table with the defaults
+async function seedDefaultFaculties() {
+  if (seedChecked) return;
+  if ((await Faculty.count()) === 0) {
+    await Faculty.bulkCreate(DEFAULT_FACULTIES, { ignoreDuplicates: true });
+    console.log(`[faculty] empty reference table seeded with ${DEFAULT_FACULTIES.length} default faculties`);
+  }
+  seedChecked = true;
+}
+
+// Re-reads the reference from the DB, republishes it to Redis and applies it locally.
+// An empty reference is applied but never cached, so the next load retries the DB.
+async function rebuildFacultyReference(): Promise<FacultyReference> {
+  const ref = await buildFromDb();
+  if (ref.faculties.length) {
+    await setJSON(CACHE_KEYS.FACULTY_REFERENCE, ref, REFERENCE_TTL_SECONDS);
+  } else {
+    await redis.del(CACHE_KEYS.FACULTY_REFERENCE);
+    console.warn('[faculty] reference table is empty, fakultas names will be null');
+  }
+  apply(ref);
+  return ref;
+}
+
+// Redis first, DB when the cache is missing or expired. Keeps the previous snapshot when both fail.
+export async function loadFacultyReference(): Promise<void> {
+  try {
+    const cached = await getJSON<FacultyReference>(CACHE_KEYS.FACULTY_REFERENCE);
+    if (cached?.faculties.length) {
+      if (cached.generated_at !== loadedAt) apply(cached);
+      return;
+    }
+    await seedDefaultFaculties();
+    const ref = await rebuildFacultyReference();
+    console.log(`[faculty] reference loaded from DB faculties=${ref.faculties.length}`);
+  } catch (e) {
+    console.error('[faculty] reference load failed', e);
+  }
+}
+
+export function startFacultyReferenceRefresh() {
+  const timer = setInterval(() => { void loadFacultyReference(); }, REFRESH_MS);
+  timer.unref();
+}
+
+// Name for a fakultas code; when the code is missing it is taken from the NIM (member_id)
+export function getFakultasName(institution: string | null, memberId?: string | null): string | null {
+  const code = institution || (memberId ? nimFacultyCode(memberId) : null);
+  if (!code) return null;
+  return byCode.get(code)?.name || null;
+}
+
+export function getFacultyCodes(): string[] {
+  return [...byCode.keys()];
+}
+
+function nimFacultyCode(memberId: string): string | null {
+  const nim = memberId.trim();
+  if (!NIM_PATTERN.test(nim)) return null;
+  return nim.slice(NIM_FACULTY_OFFSET, NIM_FACULTY_OFFSET + NIM_FACULTY_LENGTH);
+}
+
+// SQL expression yielding the fakultas code of a visitor_count row: institution,
+// or the NIM digits when institution is empty (same positions as parseNim).
+export function facultyCodeSql(institutionCol = 'institution', memberCol = 'member_id'): string {
+  return `COALESCE(NULLIF(${institutionCol}, ''), CASE WHEN ${memberCol} REGEXP '^[0-9]{8,}$' THEN SUBSTRING(${memberCol}, ${NIM_FACULTY_OFFSET + 1}, ${NIM_FACULTY_LENGTH}) END)`;
+}
+
+// SQL expression yielding the entry year (angkatan) of a NIM column, NULL for non-NIM member IDs.
+// Two-digit years after the current year belong to the previous century (same rule as parseNim).
+export function entryYearSql(memberCol = 'member_id'): string {
+  const yy = `CAST(LEFT(${memberCol}, 2) AS UNSIGNED)`;
+  return `CASE WHEN ${memberCol} REGEXP '^[0-9]{8,}$' THEN IF(2000 + ${yy} > ${currentYear()}, 1900, 2000) + ${yy} END`;
+}
+
+// Entry year of the students currently in their first academic year
+// (the academic year starts in ACADEMIC_YEAR_START_MONTH, August by default).
+export function firstYearAngkatan(date: Date = new Date()): number {
+  const { year, month } = zonedParts(date);
+  return month >= ACADEMIC_YEAR_START_MONTH ? year : year - 1;
+}
+
+export interface NimInfo {
+  nim: string;
+  angkatan: number;        // entry year
+  jenjang_code: string;    // raw jenjang digit
+  fakultas_code: string;
+  fakultas: string | null;
+  prodi_code: string | null;
+  prodi: string | null;
+  jenjang: string | null;  // from the matched study program
+}
+
+// Derives entry year, fakultas and study program from a NIM. Returns null for non-NIM member IDs
+// (staff, guests); fakultas / prodi are null when the codes are not in the reference table.
+export function parseNim(memberId: string): NimInfo | null {
+  const nim = memberId.trim();
+  const fakultasCode = nimFacultyCode(nim);
+  if (!fakultasCode) return null;
+  const yy = Number(nim.slice(0, 2));
+  const thisYear = currentYear();
+  let angkatan = 2000 + yy;
+  if (angkatan > thisYear) angkatan -= 100;
+  const rest = nim.slice(NIM_FACULTY_OFFSET);
+  const program = programs.find(p => rest.startsWith(p.code));
+  const faculty = program ? program.faculty : byCode.get(fakultasCode);
+  return {
+    nim,
+    angkatan,
+    jenjang_code: nim.charAt(2),
+    fakultas_code: faculty?.code || fakultasCode,
+    fakultas: faculty?.name || null,
+    prodi_code: program?.code || null,
+    prodi: program?.name || null,
+    jenjang: program?.jenjang || null
+  };
+}
+
+// institution = fakultas code. Prefer SLiMS inst_name when it already is a code
+// (or a fakultas name), otherwise take it from the NIM.
+export function resolveInstitution(memberId: string, instName: string | null): string | null {
+  const inst = (instName || '').trim();
+  if (inst && byCode.has(inst)) return inst;
+  if (inst) {
+    const named = byName.get(inst.toLowerCase());
+    if (named) return named.code;
+  }
+  const code = nimFacultyCode(memberId);
+  return code && byCode.has(code) ? code : null;
+}
+
+export interface FacultyInput {
+  code: string;
+  name: string;
+}
+
+export interface StudyProgramInput {
+  code: string;
+  name: string;
+  jenjang?: string | null;
+}
+
+export class FacultyService {
+  static async list(): Promise<FacultyReference> {
+    const cached = await getJSON<FacultyReference>(CACHE_KEYS.FACULTY_REFERENCE);
+    return cached?.faculties.length ? cached : rebuildFacultyReference();
+  }
+
+  static async createFaculty(data: FacultyInput) {
+    const row = await Faculty.create({ code: data.code, name: data.name });
+    await rebuildFacultyReference();
+    return row.toJSON();
+  }
+
+  static async updateFaculty(id: number, patch: Partial<FacultyInput>) {
+    const row = await Faculty.findByPk(id);
+    if (!row) return null;
+    if (patch.code !== undefined && patch.code !== row.code) {
+      // Program codes start with the faculty code (see createProgram) and match NIM prefixes
+      const programs = await StudyProgram.count({ where: { faculty_id: id } });
+      if (programs > 0) throw new Error(`Kode fakultas tidak dapat diubah selama masih ada ${programs} prodi`);
+      row.code = patch.code;
+    }
+    if (patch.name !== undefined) row.name = patch.name;
+    row.updated_at = new Date();
+    await row.save();
+    await rebuildFacultyReference();
+    return row.toJSON();
+  }
+
+  static async removeFaculty(id: number) {
+    const row = await Faculty.findByPk(id);
+    if (!row) return false;
+    await authSequelize.transaction(async transaction => {
+      await StudyProgram.destroy({ where: { faculty_id: id }, transaction });
+      await row.destroy({ transaction });
+    });
+    await rebuildFacultyReference();
+    return true;
+  }
+
+  static async createProgram(facultyId: number, data: StudyProgramInput) {
+    const faculty = await Faculty.findByPk(facultyId);
+    if (!faculty) return null;
+    if (!data.code.startsWith(faculty.code)) throw new Error(`Kode prodi harus diawali kode fakultas (${faculty.code})`);
+    const row = await StudyProgram.create({ faculty_id: facultyId, code: data.code, name: data.name, jenjang: data.jenjang || null });
+    await rebuildFacultyReference();
+    return row.toJSON();
+  }
+
+  static async updateProgram(id: number, patch: Partial<StudyProgramInput>) {
+    const row = await StudyProgram.findByPk(id);
+    if (!row) return null;
+    if (patch.code !== undefined) {
+      const faculty = await Faculty.findByPk(row.faculty_id);
+      if (faculty && !patch.code.startsWith(faculty.code)) throw new Error(`Kode prodi harus diawali kode fakultas (${faculty.code})`);
+      row.code = patch.code;
+    }
+    if (patch.name !== undefined) row.name = patch.name;
+    if (patch.jenjang !== undefined) row.jenjang = patch.jenjang || null;
+    row.updated_at = new Date();
+    await row.save();
+    await rebuildFacultyReference();
+    return row.toJSON();
+  }
+
+  static async removeProgram(id: number) {
+    const row = await StudyProgram.findByPk(id);
+    if (!row) return false;
+    await row.destroy();
+    await rebuildFacultyReference();
+    return true;
+  }
+}
+
+export default FacultyService;
@@ -0,0 +1,164 @@
+import { getVisitorCountsInRange } from './visitorService.js';
+import { formatDay, normalizeRange } from '../utils/dateBuckets.js';
+import { addDays, startOfDay } from '../utils/timezone.js';
+
+// Daily visitor forecasting without external services:
+//  - seasonal naive (same weekday last week) as the baseline
+//  - additive Holt-Winters (level + trend + weekly season) with a small grid search
+//    over the smoothing parameters, scored on one-step-ahead squared error.
+
+export const FORECAST_HORIZONS = [7, 30] as const;
+export type ForecastHorizon = typeof FORECAST_HORIZONS[number];
+
+const SEASON = 7;                // weekly seasonality on daily data
+const HISTORY_DAYS = Number(process.env.VISITOR_FORECAST_HISTORY_DAYS || 365);
+const Z_95 = 1.96;
+
+export interface ForecastPoint {
+  date: string;           // YYYY-MM-DD
+  forecast: number;       // Holt-Winters point estimate (>= 0)
+  lower: number;          // 95% band
+  upper: number;
+  seasonal_naive: number; // baseline: value of the same weekday in the last observed week
+}
+
+export interface VisitorForecast {
+  horizon: number;
+  method: 'holt-winters' | 'seasonal-naive';
+  history: { from: string; to: string; days: number };
+  params: { alpha: number; beta: number; gamma: number } | null;
+  rmse: number; // in-sample one-step-ahead error
+  points: ForecastPoint[];
+}
+
+interface HoltWintersFit {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  sse: number;
+  n: number;
+  level: number;
+  trend: number;
+  seasonals: number[];
+}
+
+function fitHoltWinters(series: number[], alpha: number, beta: number, gamma: number): HoltWintersFit {
+  const m = SEASON;
+  // Initialise from the first two seasons
+  const first = series.slice(0, m);
+  const second = series.slice(m, 2 * m);
+  const mean1 = first.reduce((a, b) => a + b, 0) / m;
+  const mean2 = second.reduce((a, b) => a + b, 0) / m;
+  let level = mean1;
+  let trend = (mean2 - mean1) / m;
+  const seasonals = first.map(v => v - mean1);
+
+  let sse = 0;
+  let n = 0;
+  for (let t = m; t < series.length; t++) {
+    const y = series[t] ?? 0;
+    const sIdx = t % m;
+    const season = seasonals[sIdx] ?? 0;
+    const predicted = level + trend + season;
+    const err = y - predicted;
+    sse += err * err;
+    n++;
+    const prevLevel = level;
+    level = alpha * (y - season) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    seasonals[sIdx] = gamma * (y - level) + (1 - gamma) * season;
+  }
+  return { alpha, beta, gamma, sse, n, level, trend, seasonals };
+}
+
+function bestHoltWinters(series: number[]): HoltWintersFit {
+  let best: HoltWintersFit | null = null;
+  for (const alpha of [0.1, 0.2, 0.3, 0.5, 0.7, 0.9]) {
+    for (const beta of [0, 0.01, 0.05, 0.1, 0.2]) {
+      for (const gamma of [0.05, 0.1, 0.2, 0.3, 0.5]) {
+        const fit = fitHoltWinters(series, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) best = fit;
+      }
+    }
+  }
+  return best!;
+}
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+// Pure forecasting step over a daily series ending at lastDate.
+export function forecastDailySeries(series: number[], lastDate: Date, horizon: number): Omit<VisitorForecast, 'history'> {
+  const n = series.length;
+  const dateAt = (h: number) => formatDay(addDays(lastDate, h));
+  const naiveAt = (h: number) => series[n - SEASON + ((h - 1) % SEASON)] ?? series[n - 1] ?? 0;
+
+  // Not enough history for a seasonal model: seasonal naive with the spread of weekly differences
+  if (n < 3 * SEASON) {
+    const diffs: number[] = [];
+    for (let t = SEASON; t < n; t++) diffs.push((series[t] ?? 0) - (series[t - SEASON] ?? 0));
+    const sigma = diffs.length ? Math.sqrt(diffs.reduce((a, d) => a + d * d, 0) / diffs.length) : 0;
+    const points: ForecastPoint[] = [];
+    for (let h = 1; h <= horizon; h++) {
+      const value = naiveAt(h);
+      const band = Z_95 * sigma * Math.sqrt(Math.ceil(h / SEASON));
+      points.push({ date: dateAt(h), forecast: round1(value), lower: round1(Math.max(0, value - band)), upper: round1(value + band), seasonal_naive: round1(value) });
+    }
+    return { horizon, method: 'seasonal-naive', params: null, rmse: round1(sigma), points };
+  }
+
+  const fit = bestHoltWinters(series);
+  const sigma = Math.sqrt(fit.sse / Math.max(1, fit.n));
+  const points: ForecastPoint[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const season = fit.seasonals[(n + h - 1) % SEASON] ?? 0;
+    const value = Math.max(0, fit.level + h * fit.trend + season);
+    // Additive Holt-Winters forecast variance approximation (Hyndman et al.)
+    let varFactor = 1;
+    for (let j = 1; j < h; j++) {
+      const c = fit.alpha * (1 + j * fit.beta) + (j % SEASON === 0 ? fit.gamma * (1 - fit.alpha) : 0);
+      varFactor += c * c;
+    }
+    const band = Z_95 * sigma * Math.sqrt(varFactor);
+    points.push({
+      date: dateAt(h),
+      forecast: round1(value),
+      lower: round1(Math.max(0, value - band)),
+      upper: round1(value + band),
+      seasonal_naive: round1(naiveAt(h))
+    });
+  }
+  return {
+    horizon,
+    method: 'holt-winters',
+    params: { alpha: fit.alpha, beta: fit.beta, gamma: fit.gamma },
+    rmse: round1(sigma),
+    points
+  };
+}
+
+// Daily history up to yesterday (today is partial and would drag the level down).
+async function getDailyHistory(): Promise<{ series: number[]; from: string; to: string; lastDate: Date }> {
+  const yesterday = addDays(startOfDay(), -1);
+  const first = addDays(yesterday, -(HISTORY_DAYS - 1));
+  const { range } = normalizeRange(formatDay(first), formatDay(yesterday));
+  if (!range) throw new Error('invalid forecast history range');
+  const result = await getVisitorCountsInRange(range, 'day');
+  // Drop leading zero days (before the system started recording) so they do not bias the fit
+  const firstNonZero = result.buckets.findIndex(b => b.total > 0);
+  const buckets = firstNonZero > 0 ? result.buckets.slice(firstNonZero) : result.buckets;
+  return {
+    series: buckets.map(b => b.total),
+    from: buckets[0]?.bucket || range.from,
+    to: range.to,
+    lastDate: yesterday
+  };
+}
+
+// Computes all horizons from a single history query.
+export async function getVisitorForecasts(horizons: readonly number[] = FORECAST_HORIZONS): Promise<VisitorForecast[]> {
+  const { series, from, to, lastDate } = await getDailyHistory();
+  return horizons.map(h => ({
+    ...forecastDailySeries(series, lastDate, h),
+    history: { from, to, days: series.length }
+  }));
+}
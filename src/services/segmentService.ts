@@ -0,0 +1,109 @@
+import { QueryTypes } from 'sequelize';
+import { pool } from '../db/mysqlClient.js';
+import { entryYearSql, firstYearAngkatan } from './facultyService.js';
+import { syntheticFilter, type SyntheticTable } from './syntheticData.js';
+import { periodWindow } from '../utils/timezone.js';
+
+// Visits and loans broken down by student entry year (angkatan, from the NIM) and by
+// SLiMS member type (member.member_type_id -> mst_member_type). Complements the per-fakultas
+// breakdown of getMonthTopFaculties. Both sources live in the SLiMS DB and need joins,
+// so both paths run raw SQL (pool or sequelize.query).
+
+const USE_SEQUELIZE = (process.env.USE_SEQUELIZE || 'false').toLowerCase() === 'true';
+
+async function runQuery<T>(sql: string, params: unknown[]): Promise<T[]> {
+  if (USE_SEQUELIZE) {
+    const { sequelize } = await import('../db/sequelize.js');
+    return sequelize.query(sql, { replacements: params, type: QueryTypes.SELECT }) as Promise<T[]>;
+  }
+  const [rows] = await pool.query(sql, params);
+  return rows as T[];
+}
+
+export type SegmentPeriod = 'month' | 'year';
+
+export interface EntryYearSegment {
+  angkatan: number | null; // null = member ID is not a NIM (staff, lecturers, guests)
+  first_year: boolean;     // angkatan currently in its first academic year
+  total: number;           // visits / loans
+  members: number;         // distinct members
+}
+
+export interface MemberTypeSegment {
+  member_type_id: number | null; // null = member not found in SLiMS
+  member_type: string | null;
+  total: number;
+  members: number;
+}
+
+export interface SegmentBreakdown {
+  period: SegmentPeriod;
+  key: string; // YYYY-MM or YYYY
+  by_angkatan: EntryYearSegment[];
+  by_member_type: MemberTypeSegment[];
+}
+
+interface SegmentSource {
+  table: SyntheticTable; // both sources carry synthetic_batch (SYNTHETIC_DATA_MODE applies)
+  from: string;  // table with alias `x`
+  filters: string[];
+  date: string;  // date column
+}
+
+const SOURCES: Record<'visits' | 'loans', SegmentSource> = {
+  visits: { table: 'visitor_count', from: 'visitor_count x', filters: [], date: 'x.checkin_date' },
+  loans: { table: 'loan', from: 'loan x', filters: ['x.is_lent = 1'], date: 'x.loan_date' }
+};
+
+// `key` selects a past month / year (YYYY-MM / YYYY); default is the current one
+export function segmentWindow(period: SegmentPeriod, key?: string): { key: string; start: Date; end: Date } {
+  return periodWindow(period, key);
+}
+
+async function getSegments(source: SegmentSource, period: SegmentPeriod, key?: string): Promise<SegmentBreakdown> {
+  const w = segmentWindow(period, key);
+  const synthetic = (await syntheticFilter(source.table)).sql('x');
+  const where = [...source.filters, `${source.date} >= ?`, `${source.date} < ?`].join(' AND ') + synthetic;
+  const angkatanSql = `SELECT ${entryYearSql('x.member_id')} AS angkatan, COUNT(*) AS total, COUNT(DISTINCT x.member_id) AS members
+                       FROM ${source.from}
+                       WHERE ${where}
+                       GROUP BY angkatan`;
+  const typeSql = `SELECT mt.member_type_id AS member_type_id, mt.member_type_name AS member_type,
+                          COUNT(*) AS total, COUNT(DISTINCT x.member_id) AS members
+                   FROM ${source.from}
+                   LEFT JOIN member m ON m.member_id = x.member_id
+                   LEFT JOIN mst_member_type mt ON mt.member_type_id = m.member_type_id
+                   WHERE ${where}
+                   GROUP BY mt.member_type_id, mt.member_type_name
+                   ORDER BY total DESC`;
+  const [years, types] = await Promise.all([
+    runQuery<{ angkatan: number | null; total: number; members: number }>(angkatanSql, [w.start, w.end]),
+    runQuery<{ member_type_id: number | null; member_type: string | null; total: number; members: number }>(typeSql, [w.start, w.end])
+  ]);
+  const freshmen = firstYearAngkatan();
+  return {
+    period,
+    key: w.key,
+    // newest angkatan first, non-NIM members last
+    by_angkatan: years
+      .map(r => {
+        const angkatan = r.angkatan === null ? null : Number(r.angkatan);
+        return { angkatan, first_year: angkatan === freshmen, total: Number(r.total), members: Number(r.members) };
+      })
+      .sort((a, b) => (b.angkatan ?? -1) - (a.angkatan ?? -1)),
+    by_member_type: types.map(r => ({
+      member_type_id: r.member_type_id === null ? null : Number(r.member_type_id),
+      member_type: r.member_type,
+      total: Number(r.total),
+      members: Number(r.members)
+    }))
+  };
+}
+
+export function getVisitSegments(period: SegmentPeriod, key?: string): Promise<SegmentBreakdown> {
+  return getSegments(SOURCES.visits, period, key);
+}
+
+export function getLoanSegments(period: SegmentPeriod, key?: string): Promise<SegmentBreakdown> {
+  return getSegments(SOURCES.loans, period, key);
+}
@@ -0,0 +1,62 @@
+import { Op } from 'sequelize';
+import { pool } from '../db/mysqlClient.js';
+
+// Synthetic rows (traffic simulator, backfill script) are tagged in visitor_count.synthetic_batch
+// and loan.synthetic_batch (database/synthetic_data.sql); real rows keep NULL. SYNTHETIC_DATA_MODE
+// decides what the visitor and loan aggregates read:
+//   exclude (default) -> real rows only (production dashboards and reports)
+//   include           -> real + synthetic (demo instances)
+//   only              -> synthetic rows only (sandbox)
+// Without the column nothing can be tagged: exclude / include read everything, only reads nothing.
+
+export type SyntheticMode = 'exclude' | 'include' | 'only';
+export type SyntheticTable = 'visitor_count' | 'loan';
+
+const MODES: SyntheticMode[] = ['exclude', 'include', 'only'];
+const configured = (process.env.SYNTHETIC_DATA_MODE || 'exclude').toLowerCase() as SyntheticMode;
+export const SYNTHETIC_DATA_MODE: SyntheticMode = MODES.includes(configured) ? configured : 'exclude';
+
+export interface SyntheticFilter {
+  sql: (alias?: string) => string;  // '' or ' AND <alias.>synthetic_batch ...', appended to a WHERE
+  where: Record<string | symbol, unknown>; // same condition as a Sequelize where fragment
+}
+
+const PRIMARY_KEYS: Record<SyntheticTable, string> = { visitor_count: 'visitor_id', loan: 'loan_id' };
+const columnChecks = new Map<SyntheticTable, Promise<boolean>>();
+
+// Cached per table for the process lifetime; a failed lookup is retried on the next call
+export function hasSyntheticColumn(table: SyntheticTable = 'visitor_count'): Promise<boolean> {
+  let check = columnChecks.get(table);
+  if (!check) {
+    check = pool.query(
+      `SELECT COUNT(*) AS n FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = 'synthetic_batch'`,
+      [table]
+    ).then(([rows]) => Number((rows as any[])[0]?.n) > 0);
+    check.catch(() => { columnChecks.delete(table); });
+    columnChecks.set(table, check);
+  }
+  return check;
+}
+
+export async function syntheticFilter(table: SyntheticTable = 'visitor_count', mode: SyntheticMode = SYNTHETIC_DATA_MODE): Promise<SyntheticFilter> {
+  if (mode === 'include') return { sql: () => '', where: {} };
+  if (!(await hasSyntheticColumn(table))) {
+    return mode === 'only'
+      ? { sql: () => ' AND FALSE', where: { [PRIMARY_KEYS[table]]: { [Op.lt]: 0 } } }
+      : { sql: () => '', where: {} };
+  }
+  const column = (alias?: string) => (alias ? `${alias}.synthetic_batch` : 'synthetic_batch');
+  return mode === 'only'
+    ? { sql: alias => ` AND ${column(alias)} IS NOT NULL`, where: { synthetic_batch: { [Op.ne]: null } } }
+    : { sql: alias => ` AND ${column(alias)} IS NULL`, where: { synthetic_batch: null } };
+}
+
+// Whether rows written with a synthetic batch show up in the aggregates of this instance
+export function syntheticRowsVisible(): boolean {
+  return SYNTHETIC_DATA_MODE !== 'exclude';
+}
+
+// Whether real check-ins (kiosk) show up, i.e. this is not a sandbox instance
+export function realRowsVisible(): boolean {
+  return SYNTHETIC_DATA_MODE !== 'only';
+}
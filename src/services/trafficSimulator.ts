@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import { insertVisitorRows, type NewVisitorRow } from './visitorService.js';
+import { getFacultyCodes } from './facultyService.js';
+import { SYNTHETIC_DATA_MODE, hasSyntheticColumn, type SyntheticMode } from './syntheticData.js';
+import { formatDay } from '../utils/dateBuckets.js';
+import { currentYear, zonedParts } from '../utils/timezone.js';
+
+// Synthetic visitor traffic for demos and load-testing the real-time pipeline.
+// Arrivals follow a Poisson process whose rate is
+//   base_rate_per_hour x hourly_profile[hour] x weekday/weekend multiplier x exam multiplier
+// evaluated in library time, drawn once per tick and inserted as one batch into visitor_count.
+// Every run gets its own synthetic_batch label, so its rows stay out of production aggregates
+// (SYNTHETIC_DATA_MODE) and can be purged with the backfill script.
+
+export interface ExamPeriod {
+  from: string; // YYYY-MM-DD
+  to: string;   // inclusive
+}
+
+export interface SimulatorScenario {
+  name: string;
+  base_rate_per_hour: number;           // arrivals per hour at profile weight 1
+  hourly_profile: number[];             // 24 weights, index = hour in library time
+  weekday_multiplier: number;           // Monday-Friday
+  weekend_multiplier: number;           // Saturday-Sunday
+  exam_multiplier: number;              // applied inside exam_periods
+  exam_periods: ExamPeriod[];
+  faculty_weights: Record<string, number>; // fakultas code -> weight (default: all faculties equal)
+  room_weights: Record<string, number>;    // room_code -> weight
+  returning_ratio: number;              // share of arrivals drawn from members seen earlier in the run
+  duration_minutes: number | null;      // auto-stop; null = until stopped
+}
+
+export type ScenarioInput = Partial<SimulatorScenario>;
+
+export interface SimulatorStatus {
+  running: boolean;
+  scenario: SimulatorScenario | null;
+  batch: string | null;          // synthetic_batch of the current / last run
+  data_mode: SyntheticMode;      // whether this instance's dashboards show the simulated rows
+  started_at: string | null;
+  stops_at: string | null;
+  inserted: number;
+  ticks: number;
+  errors: number;
+  last_error: string | null;
+  current_rate_per_hour: number;
+}
+
+const TICK_MS = Number(process.env.SIMULATOR_TICK_MS || 1000);
+// Upper bound per tick so a typo in base_rate_per_hour cannot flood the DB
+const MAX_ROWS_PER_TICK = Number(process.env.SIMULATOR_MAX_ROWS_PER_TICK || 500);
+const MEMBER_POOL_LIMIT = 5000;
+
+// Typical weekday curve: opens 07:00, peaks late morning and mid afternoon, closes 21:00
+const DEFAULT_HOURLY_PROFILE = [0, 0, 0, 0, 0, 0, 0, 0.2, 0.7, 1, 1, 0.9, 0.6, 0.8, 1, 0.9, 0.7, 0.5, 0.3, 0.2, 0.1, 0, 0, 0];
+
+export const DEFAULT_SCENARIO: SimulatorScenario = {
+  name: 'default',
+  base_rate_per_hour: 120,
+  hourly_profile: DEFAULT_HOURLY_PROFILE,
+  weekday_multiplier: 1,
+  weekend_multiplier: 0.3,
+  exam_multiplier: 1.8,
+  exam_periods: [],
+  faculty_weights: {},
+  room_weights: { A101: 3, A102: 2, B201: 2, B202: 1, C301: 1, C302: 1, D401: 1, D402: 1 },
+  returning_ratio: 0.4,
+  duration_minutes: null
+};
+
+const FIRST_NAMES = ['Ahmad', 'Siti', 'Budi', 'Dewi', 'Eko', 'Fina', 'Gunawan', 'Hesti', 'Indra', 'Jihan', 'Kurniawan', 'Lina', 'Muhammad', 'Nina', 'Oscar', 'Putri', 'Qori', 'Rizki', 'Sari', 'Tono', 'Utami', 'Vina', 'Wahyu', 'Yusuf', 'Zahra'];
+const LAST_NAMES = ['Pratama', 'Nurhaliza', 'Santoso', 'Kartika', 'Prasetyo', 'Rahayu', 'Wulandari', 'Kurniawan', 'Putri', 'Marlina', 'Wijaya', 'Maharani', 'Sandria', 'Saputra', 'Hidayat', 'Lestari', 'Syahputra', 'Fitriani'];
+
+interface SimMember {
+  member_id: string;
+  member_name: string;
+  institution: string | null;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let scenario: SimulatorScenario | null = null;
+let batch: string | null = null;
+let startedAt: Date | null = null;
+let stopsAt: Date | null = null;
+let inserted = 0;
+let ticks = 0;
+let errors = 0;
+let lastError: string | null = null;
+let tickRunning = false;
+let nextVisitor: ((at: Date) => NewVisitorRow) | null = null;
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)]!;
+}
+
+function pickWeighted(weights: Record<string, number>): string | null {
+  const entries = Object.entries(weights).filter(([, w]) => w > 0);
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  if (!total) return null;
+  let r = Math.random() * total;
+  for (const [key, w] of entries) {
+    r -= w;
+    if (r < 0) return key;
+  }
+  return entries[entries.length - 1]![0];
+}
+
+// Knuth for small means, normal approximation above
+export function poisson(mean: number): number {
+  if (mean <= 0) return 0;
+  if (mean > 30) {
+    const u = 1 - Math.random();
+    const v = Math.random();
+    const normal = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * normal));
+  }
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let p = Math.random();
+  while (p > limit) {
+    k++;
+    p *= Math.random();
+  }
+  return k;
+}
+
+function inExamPeriod(s: SimulatorScenario, date: Date): boolean {
+  const day = formatDay(date);
+  return s.exam_periods.some(p => day >= p.from && day <= p.to);
+}
+
+export function scenarioRatePerHour(s: SimulatorScenario, date: Date = new Date()): number {
+  const { hour, weekday } = zonedParts(date);
+  const dayMultiplier = weekday >= 5 ? s.weekend_multiplier : s.weekday_multiplier;
+  const examMultiplier = inExamPeriod(s, date) ? s.exam_multiplier : 1;
+  return s.base_rate_per_hour * (s.hourly_profile[hour] ?? 0) * dayMultiplier * examMultiplier;
+}
+
+// NIM-shaped member id (YY + jenjang + fakultas + prodi + sequence) so fakultas / angkatan
+// breakdowns work on simulated rows; non-faculty members get a staff-style id
+function newMember(institution: string | null, at: Date): SimMember {
+  const name = `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`;
+  if (!institution) {
+    return { member_id: `S${String(Math.floor(Math.random() * 100000)).padStart(5, '0')}`, member_name: name, institution: null };
+  }
+  const yy = String((currentYear(at) - Math.floor(Math.random() * 5)) % 100).padStart(2, '0');
+  const prodi = String(1 + Math.floor(Math.random() * 9));
+  const seq = String(Math.floor(Math.random() * 1000)).padStart(3, '0');
+  return { member_id: `${yy}1${institution}${prodi}${seq}`, member_name: name, institution };
+}
+
+// Generates visitors for a scenario. Members are remembered so `returning_ratio` of the
+// arrivals are repeat visits (the pool is per factory: per simulator run / backfill).
+export function createVisitorFactory(s: SimulatorScenario): (at: Date) => NewVisitorRow {
+  const members: SimMember[] = [];
+  const facultyWeights = Object.keys(s.faculty_weights).length
+    ? s.faculty_weights
+    : Object.fromEntries(getFacultyCodes().map(code => [code, 1]));
+  return (at: Date) => {
+    let member: SimMember;
+    if (members.length && Math.random() < s.returning_ratio) {
+      member = pick(members);
+    } else {
+      member = newMember(pickWeighted(facultyWeights), at);
+      if (members.length < MEMBER_POOL_LIMIT) members.push(member);
+    }
+    return { ...member, room_code: pickWeighted(s.room_weights), checkin_date: at };
+  };
+}
+
+async function tick() {
+  if (!scenario || !nextVisitor || !batch || tickRunning) return;
+  if (stopsAt && Date.now() >= stopsAt.getTime()) {
+    stopSimulator();
+    return;
+  }
+  tickRunning = true;
+  try {
+    const now = new Date();
+    const mean = (scenarioRatePerHour(scenario, now) / 3600) * (TICK_MS / 1000);
+    const count = Math.min(poisson(mean), MAX_ROWS_PER_TICK);
+    const rows = Array.from({ length: count }, () => nextVisitor!(now));
+    await insertVisitorRows(rows, batch);
+    inserted += rows.length;
+    ticks++;
+  } catch (e: any) {
+    errors++;
+    lastError = e?.message || String(e);
+    console.error('[simulator] tick failed', e);
+  } finally {
+    tickRunning = false;
+  }
+}
+
+export async function startSimulator(input: ScenarioInput = {}): Promise<{ success: boolean; message: string; scenario?: SimulatorScenario; batch?: string }> {
+  if (timer) {
+    return { success: false, message: 'Simulator is already running' };
+  }
+  const s: SimulatorScenario = { ...DEFAULT_SCENARIO, ...input };
+  if (s.hourly_profile.length !== 24) {
+    return { success: false, message: 'hourly_profile must have 24 values' };
+  }
+  // Untagged rows would be indistinguishable from real check-ins
+  if (!(await hasSyntheticColumn())) {
+    return { success: false, message: 'visitor_count.synthetic_batch is missing: run database/synthetic_data.sql first' };
+  }
+  if (timer) {
+    return { success: false, message: 'Simulator is already running' };
+  }
+  scenario = s;
+  startedAt = new Date();
+  // Unique per run (purging by batch must not catch an earlier run started in the same second)
+  batch = `sim-${startedAt.toISOString().slice(0, 19).replace(/[-:T]/g, '')}-${randomUUID().slice(0, 6)}`;
+  stopsAt = s.duration_minutes ? new Date(startedAt.getTime() + s.duration_minutes * 60000) : null;
+  inserted = 0;
+  ticks = 0;
+  errors = 0;
+  lastError = null;
+  nextVisitor = createVisitorFactory(s);
+  timer = setInterval(() => { void tick(); }, TICK_MS);
+  console.log(`[simulator] started scenario=${s.name} batch=${batch} mode=${SYNTHETIC_DATA_MODE} rate_now=${scenarioRatePerHour(s).toFixed(1)}/h tick=${TICK_MS}ms`);
+  return { success: true, message: 'Simulator started', scenario: s, batch };
+}
+
+export function stopSimulator(): { success: boolean; message: string; inserted?: number } {
+  if (!timer) {
+    return { success: false, message: 'Simulator is not running' };
+  }
+  clearInterval(timer);
+  timer = null;
+  console.log(`[simulator] stopped scenario=${scenario?.name} inserted=${inserted}`);
+  return { success: true, message: 'Simulator stopped', inserted };
+}
+
+export function getSimulatorStatus(): SimulatorStatus {
+  return {
+    running: timer !== null,
+    scenario,
+    batch,
+    data_mode: SYNTHETIC_DATA_MODE,
+    started_at: startedAt ? startedAt.toISOString() : null,
+    stops_at: stopsAt ? stopsAt.toISOString() : null,
+    inserted,
+    ticks,
+    errors,
+    last_error: lastError,
+    current_rate_per_hour: scenario && timer ? Math.round(scenarioRatePerHour(scenario) * 100) / 100 : 0
+  };
+}
@@ -1,31 +1,11 @@
 import { pool } from '../db/mysqlClient.js';
-import { redis } from '../cache/redisClient.js';
-import { Op, fn, col } from 'sequelize';
-
-// Mapping fakultas berdasarkan kode institution
-const FAKULTAS_MAPPING: Record<string, string> = {
-  '01': 'Hukum',
-  '02': 'Pertanian',
-  '03': 'Kedokteran',
-  '04': 'MIPA',
-  '05': 'Ekonomi',
-  '06': 'Peternakan',
-  '07': 'Ilmu Budaya',
-  '08': 'Ilmu Sosial dan Ilmu Politik',
-  '09': 'Teknik',
-  '10': 'Farmasi',
-  '11': 'Teknologi Pertanian',
-  '12': 'Kesehatan Masyarakat',
-  '13': 'Keperawatan',
-  '14': 'Kedokteran Gigi',
-  '15': 'Teknologi Informasi',
-  '16': 'Pascasarjana'
-};
-
-function getFakultasName(institution: string | null): string | null {
-  if (!institution) return null;
-  return FAKULTAS_MAPPING[institution] || null;
-}
+import { redis, CACHE_KEYS } from '../cache/redisClient.js';
+import { emitTodayVisitor, type CheckinEvent } from '../events/visitorEvents.js';
+import { Op, fn, col, literal, where as sqlWhere, QueryTypes } from 'sequelize';
+import { formatDay, toDayString, sqlBucketExpr, zeroFill, type Bucket, type DateRange, type Granularity } from '../utils/dateBuckets.js';
+import { startOfDay, addDays, startOfMonth, startOfYear, formatMonth, formatTime, currentYear, zonedParts, periodWindow } from '../utils/timezone.js';
+import { getFakultasName, getFacultyCodes, facultyCodeSql, resolveInstitution } from './facultyService.js';
+import { syntheticFilter, syntheticRowsVisible, realRowsVisible } from './syntheticData.js';
 
 export interface VisitorRow {
   visitor_id: number;
@@ -63,57 +43,60 @@ async function getVisitorModel() {
   return visitorModelRef;
 }
 
+// Today in the library timezone (LIBRARY_TZ), not server-local / UTC
 function getTodayRange(): { start: Date; end: Date } {
-  const now = new Date();
-  const start = new Date(now);
-  start.setHours(0, 0, 0, 0);
-  const end = new Date(start);
-  end.setDate(end.getDate() + 1);
-  return { start, end };
+  const start = startOfDay();
+  return { start, end: addDays(start, 1) };
 }
 
 async function queryTodayFromDb(): Promise<number> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
     const { start, end } = getTodayRange();
-    return Visitor.count({ where: { checkin_date: { [Op.gte]: start, [Op.lt]: end } } });
+    return Visitor.count({ where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } } });
   }
+  const { start, end } = getTodayRange();
   const sql = `SELECT COUNT(*) as total_today
                FROM visitor_count
-               WHERE checkin_date >= CURDATE()
-                 AND checkin_date < (CURDATE() + INTERVAL 1 DAY)`;
-  const [rows] = await pool.query(sql);
+               WHERE checkin_date >= ?
+                 AND checkin_date < ?${synthetic.sql()}`;
+  const [rows] = await pool.query(sql, [start, end]);
   const r = rows as Array<{ total_today: number }>;
   return r[0]?.total_today || 0;
 }
 
 // Helper for delta mode: baseline (count + max id) for today
 async function queryTodayBaseline(): Promise<{ count: number; maxId: number }> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
     const { start, end } = getTodayRange();
-    const where = { checkin_date: { [Op.gte]: start, [Op.lt]: end } } as any;
+    const where = { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } } as any;
     const [count, maxId] = await Promise.all([
       Visitor.count({ where }),
       Visitor.max('visitor_id', { where }).then((v: number | null) => v || 0)
     ]);
     return { count, maxId };
   }
+  const { start, end } = getTodayRange();
   const sqlBaseline = `SELECT COUNT(*) AS c, MAX(visitor_id) AS m
                        FROM visitor_count
-                       WHERE checkin_date >= CURDATE()
-                         AND checkin_date < (CURDATE() + INTERVAL 1 DAY)`;
-  const [rows] = await pool.query(sqlBaseline);
+                       WHERE checkin_date >= ?
+                         AND checkin_date < ?${synthetic.sql()}`;
+  const [rows] = await pool.query(sqlBaseline, [start, end]);
   const r = rows as Array<{ c: number; m: number | null }>;
   return { count: r[0]?.c || 0, maxId: r[0]?.m || 0 };
 }
 
 // Helper for delta mode: delta (count + new max id) after baseline
 async function queryTodayDeltaAfter(baseMaxId: number): Promise<{ delta: number; newMax: number | null }> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
     const { start, end } = getTodayRange();
     const where = {
+      ...synthetic.where,
       visitor_id: { [Op.gt]: baseMaxId },
       checkin_date: { [Op.gte]: start, [Op.lt]: end }
     } as any;
@@ -123,12 +106,13 @@ async function queryTodayDeltaAfter(baseMaxId: number): Promise<{ delta: number;
     ]);
     return { delta, newMax };
   }
+  const { start, end } = getTodayRange();
   const sqlDelta = `SELECT COUNT(*) AS dc, MAX(visitor_id) AS mx
                     FROM visitor_count
                     WHERE visitor_id > ?
-                      AND checkin_date >= CURDATE()
-                      AND checkin_date < (CURDATE() + INTERVAL 1 DAY)`;
-  const [dRows] = await pool.query(sqlDelta, [baseMaxId]);
+                      AND checkin_date >= ?
+                      AND checkin_date < ?${synthetic.sql()}`;
+  const [dRows] = await pool.query(sqlDelta, [baseMaxId, start, end]);
   const dr = dRows as Array<{ dc: number; mx: number | null }>;
   return { delta: dr[0]?.dc || 0, newMax: dr[0]?.mx || null };
 }
@@ -168,7 +152,7 @@ export async function getTodayCount(): Promise<number> {
   let baseCount: number | null = baseCountRaw ? Number(baseCountRaw) : null;
   let baseMaxId: number | null = baseMaxIdRaw ? Number(baseMaxIdRaw) : null;
     let needInit = false;
-    const todayStr = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+    const todayStr = formatDay(new Date()); // YYYY-MM-DD in the library timezone
     if (!lastInitRaw || !lastInitRaw.startsWith(todayStr) || baseCount === null || baseMaxId === null) {
       needInit = true;
     }
@@ -210,159 +194,505 @@ export async function incrementTodayCount(by = 1) {
   // In delta mode we do NOT increment manually; delta counted via DB query on visitor_id range.
 }
 
-export interface DailyCount { date: string; total: number; }
+// ---- Unique visitors (distinct member_id) ----
+// Real-time "unique today" lives in a per-day Redis HyperLogLog. The write path
+// (recordUniqueVisitor) adds members immediately; rows written by the external gate
+// system are folded in by a periodic sync that only reads rows past a visitor_id
+// high-water mark, so the fast loop itself only does a PFCOUNT.
+const UNIQUE_TODAY_HLL_PREFIX = 'visitors:unique:hll';
+const UNIQUE_TODAY_HWM_PREFIX = 'visitors:unique:hwm';
+const UNIQUE_TODAY_LAST_SYNC_KEY = 'visitors:unique:lastsync';
+const UNIQUE_TODAY_SYNC_INTERVAL_MS = Number(process.env.UNIQUE_TODAY_SYNC_INTERVAL_MS || 60_000);
+
+function uniqueTodayKeys() {
+  const day = formatDay(new Date());
+  return {
+    day,
+    hll: `${UNIQUE_TODAY_HLL_PREFIX}:${day}`,
+    hwm: `${UNIQUE_TODAY_HWM_PREFIX}:${day}`
+  };
+}
+
+async function queryTodayMembersAfter(afterId: number): Promise<{ members: string[]; maxId: number }> {
+  const synthetic = await syntheticFilter();
+  const { start, end } = getTodayRange();
+  let rows: Array<{ visitor_id: number; member_id: string | null }>;
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    rows = await Visitor.findAll({
+      attributes: ['visitor_id', 'member_id'],
+      where: { ...synthetic.where, visitor_id: { [Op.gt]: afterId }, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      raw: true
+    });
+  } else {
+    const sql = `SELECT visitor_id, member_id
+                 FROM visitor_count
+                 WHERE visitor_id > ? AND checkin_date >= ? AND checkin_date < ?${synthetic.sql()}`;
+    const [raw] = await pool.query(sql, [afterId, start, end]);
+    rows = raw as any[];
+  }
+  let maxId = afterId;
+  const members = new Set<string>();
+  for (const r of rows) {
+    if (r.member_id) members.add(String(r.member_id));
+    if (Number(r.visitor_id) > maxId) maxId = Number(r.visitor_id);
+  }
+  return { members: [...members], maxId };
+}
+
+// Folds today's rows past the high-water mark into the HLL (first call of the day reads all of today).
+export async function syncTodayUniqueVisitors(): Promise<void> {
+  const { hll, hwm } = uniqueTodayKeys();
+  const hwmRaw = await redis.get(hwm);
+  const { members, maxId } = await queryTodayMembersAfter(hwmRaw ? Number(hwmRaw) : 0);
+  const tx = redis.multi();
+  if (members.length) tx.pfadd(hll, ...members);
+  tx.expire(hll, 2 * 86400)
+    .set(hwm, String(maxId), 'EX', 2 * 86400)
+    .set(UNIQUE_TODAY_LAST_SYNC_KEY, String(Date.now()));
+  await tx.exec();
+}
+
+export async function getTodayUniqueCount(): Promise<number> {
+  const lastSyncRaw = await redis.get(UNIQUE_TODAY_LAST_SYNC_KEY);
+  const { hll, hwm } = uniqueTodayKeys();
+  const needSync = !lastSyncRaw
+    || Date.now() - Number(lastSyncRaw) > UNIQUE_TODAY_SYNC_INTERVAL_MS
+    || !(await redis.exists(hwm)); // day rolled over
+  if (needSync) await syncTodayUniqueVisitors();
+  return Number(await redis.pfcount(hll)) || 0;
+}
+
+// Write-path hook (simulator, kiosk) so unique-today updates without waiting for the sync.
+export async function recordUniqueVisitor(memberId: string | null) {
+  if (!memberId) return;
+  const { hll } = uniqueTodayKeys();
+  await redis.multi().pfadd(hll, memberId).expire(hll, 2 * 86400).exec();
+}
+
+// ---- Live check-in feed ----
+// The fast loop reads rows past a visitor_id high-water mark and turns them into anonymized
+// check-in events. The mark starts at the current max id, so a (re)start does not replay the day;
+// bursts larger than CHECKIN_FEED_BATCH only keep the newest rows.
+const CHECKIN_FEED_HWM_KEY = 'visitors:feed:hwm';
+const CHECKIN_FEED_BATCH = Number(process.env.CHECKIN_FEED_BATCH || 50);
+const CHECKIN_FEED_RECENT = Number(process.env.CHECKIN_FEED_RECENT || 20);
+
+// "Ahmad Rizki" -> "A**** R****" (at most 4 stars per word)
+export function maskName(name: string | null): string | null {
+  if (!name || !name.trim()) return null;
+  return name.trim().split(/\s+/).map(w => w.charAt(0).toUpperCase() + '*'.repeat(Math.min(Math.max(w.length - 1, 1), 4))).join(' ');
+}
+
+async function queryMaxVisitorId(): Promise<number> {
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    return Number(await Visitor.max('visitor_id')) || 0;
+  }
+  const [rows] = await pool.query('SELECT MAX(visitor_id) AS m FROM visitor_count');
+  return Number((rows as any[])[0]?.m) || 0;
+}
+
+async function queryCheckinsAfter(afterId: number, limit: number): Promise<Omit<VisitorRow, 'fakultas'>[]> {
+  const synthetic = await syntheticFilter();
+  const { start, end } = getTodayRange();
+  let rows: any[];
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    rows = await Visitor.findAll({
+      attributes: ['visitor_id', 'member_id', 'member_name', 'institution', 'room_code', 'checkin_date'],
+      where: { ...synthetic.where, visitor_id: { [Op.gt]: afterId }, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      order: [['visitor_id', 'DESC']],
+      limit,
+      raw: true
+    });
+  } else {
+    const sql = `SELECT visitor_id, member_id, member_name, institution, room_code, checkin_date
+                 FROM visitor_count
+                 WHERE visitor_id > ? AND checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                 ORDER BY visitor_id DESC
+                 LIMIT ${limit}`;
+    const [raw] = await pool.query(sql, [afterId, start, end]);
+    rows = raw as any[];
+  }
+  return rows.reverse();
+}
+
+// New check-ins since the last call (oldest first); also kept in a short Redis list for late joiners.
+export async function pollCheckinFeed(): Promise<CheckinEvent[]> {
+  const hwmRaw = await redis.get(CHECKIN_FEED_HWM_KEY);
+  if (!hwmRaw) {
+    await redis.set(CHECKIN_FEED_HWM_KEY, String(await queryMaxVisitorId()));
+    return [];
+  }
+  const hwm = Number(hwmRaw);
+  const rows = await queryCheckinsAfter(hwm, CHECKIN_FEED_BATCH);
+  if (!rows.length) return [];
+  const events: CheckinEvent[] = rows.map(r => {
+    const at = new Date(r.checkin_date);
+    return {
+      id: Number(r.visitor_id),
+      at: at.toISOString(),
+      time: formatTime(at),
+      room_code: r.room_code,
+      institution: r.institution,
+      fakultas: getFakultasName(r.institution, r.member_id),
+      name: maskName(r.member_name)
+    };
+  });
+  const tx = redis.multi().set(CHECKIN_FEED_HWM_KEY, String(events[events.length - 1]!.id));
+  for (const e of events) tx.lpush(CACHE_KEYS.CHECKIN_FEED_RECENT, JSON.stringify(e));
+  tx.ltrim(CACHE_KEYS.CHECKIN_FEED_RECENT, 0, CHECKIN_FEED_RECENT - 1).expire(CACHE_KEYS.CHECKIN_FEED_RECENT, 86400);
+  await tx.exec();
+  return events;
+}
+
+// Latest check-ins of today (newest first) for the initial SSE payload
+export async function getRecentCheckins(): Promise<CheckinEvent[]> {
+  const raw: string[] = await redis.lrange(CACHE_KEYS.CHECKIN_FEED_RECENT, 0, CHECKIN_FEED_RECENT - 1);
+  const today = formatDay(new Date());
+  return raw
+    .map(r => { try { return JSON.parse(r) as CheckinEvent; } catch { return null; } })
+    .filter((e): e is CheckinEvent => !!e && formatDay(new Date(e.at)) === today);
+}
+
+export interface VisitsAndUnique { total: number; unique: number; }
+
+export interface UniqueVisitorSummary {
+  today: VisitsAndUnique;
+  week: VisitsAndUnique;  // last 7 days incl. today
+  month: VisitsAndUnique; // current calendar month
+  year: VisitsAndUnique;  // current calendar year
+}
+
+// Total check-ins and distinct members in [start, end).
+export async function getVisitsAndUnique(start: Date, end: Date): Promise<VisitsAndUnique> {
+  const synthetic = await syntheticFilter();
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    const rows = await Visitor.findAll({
+      attributes: [
+        [fn('COUNT', col('*')), 'total'],
+        [fn('COUNT', fn('DISTINCT', col('member_id'))), 'unique_members']
+      ],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      raw: true
+    });
+    const r = (rows as any[])[0];
+    return { total: Number(r?.total || 0), unique: Number(r?.unique_members || 0) };
+  }
+  const sql = `SELECT COUNT(*) AS total, COUNT(DISTINCT member_id) AS unique_members
+               FROM visitor_count
+               WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}`;
+  const [rows] = await pool.query(sql, [start, end]);
+  const r = (rows as any[])[0];
+  return { total: Number(r?.total || 0), unique: Number(r?.unique_members || 0) };
+}
+
+// Exact COUNT(DISTINCT member_id) next to raw check-in totals for the standard periods.
+export async function getUniqueVisitorSummary(): Promise<UniqueVisitorSummary> {
+  const { start: todayStart, end: todayEnd } = getTodayRange();
+  const weekStart = addDays(todayStart, -6);
+  const now = new Date();
+  const monthStart = startOfMonth(now);
+  const monthEnd = startOfMonth(now, 1);
+  const yearStart = startOfYear(now);
+  const yearEnd = startOfYear(now, 1);
+  const [today, week, month, year] = await Promise.all([
+    getVisitsAndUnique(todayStart, todayEnd),
+    getVisitsAndUnique(weekStart, todayEnd),
+    getVisitsAndUnique(monthStart, monthEnd),
+    getVisitsAndUnique(yearStart, yearEnd)
+  ]);
+  return { today, week, month, year };
+}
+
+export interface DailyCount { date: string; total: number; unique: number; }
 
 export async function getDailyCountsThisWeek(): Promise<DailyCount[]> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
-    const start = new Date();
-    start.setDate(start.getDate() - 6);
-    start.setHours(0, 0, 0, 0);
+    const start = addDays(startOfDay(), -6);
     const rows = await Visitor.findAll({
       attributes: [
         [fn('DATE', col('checkin_date')), 'date'],
-        [fn('COUNT', col('*')), 'total']
+        [fn('COUNT', col('*')), 'total'],
+        [fn('COUNT', fn('DISTINCT', col('member_id'))), 'unique_members']
       ],
-      where: { checkin_date: { [Op.gte]: start } },
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start } },
       group: [fn('DATE', col('checkin_date'))],
       order: [[fn('DATE', col('checkin_date')), 'ASC']],
       raw: true
     });
-    return rows.map((r: any) => ({ date: r.date, total: Number(r.total) }));
+    return rows.map((r: any) => ({ date: toDayString(r.date), total: Number(r.total), unique: Number(r.unique_members) }));
   }
-  const sql = `SELECT DATE(checkin_date) AS date, COUNT(*) AS total
+  const sql = `SELECT DATE(checkin_date) AS date, COUNT(*) AS total, COUNT(DISTINCT member_id) AS unique_members
                FROM visitor_count
-               WHERE checkin_date >= DATE_SUB(CURDATE(), INTERVAL 6 DAY)
+               WHERE checkin_date >= ?${synthetic.sql()}
                GROUP BY DATE(checkin_date)
                ORDER BY date ASC`;
-  const [rows] = await pool.query(sql);
-  return (rows as any[]).map(r => ({ date: r.date, total: Number(r.total) }));
+  const [rows] = await pool.query(sql, [addDays(startOfDay(), -6)]);
+  return (rows as any[]).map(r => ({ date: toDayString(r.date), total: Number(r.total), unique: Number(r.unique_members) }));
 }
 
-export interface MonthlyTotal { month: string; total: number; }
+export interface MonthlyTotal { month: string; total: number; unique: number; }
 
 export async function getMonthlyTotalsLastYear(): Promise<MonthlyTotal[]> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
-    const now = new Date();
-    const startMonth = new Date(now.getFullYear(), now.getMonth(), 1); // first of current month
-    startMonth.setMonth(startMonth.getMonth() - 11);
+    const startMonth = startOfMonth(new Date(), -11); // first of the month 11 months ago
     const rows = await Visitor.findAll({
       attributes: [
         [fn('DATE_FORMAT', col('checkin_date'), '%Y-%m'), 'month'],
-        [fn('COUNT', col('*')), 'total']
+        [fn('COUNT', col('*')), 'total'],
+        [fn('COUNT', fn('DISTINCT', col('member_id'))), 'unique_members']
       ],
-      where: { checkin_date: { [Op.gte]: startMonth } },
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: startMonth } },
       group: [fn('DATE_FORMAT', col('checkin_date'), '%Y-%m')],
       // Descending so latest month first
       order: [[fn('DATE_FORMAT', col('checkin_date'), '%Y-%m'), 'DESC']],
       raw: true
     });
-    return rows.map((r: any) => ({ month: r.month, total: Number(r.total) }));
+    return rows.map((r: any) => ({ month: r.month, total: Number(r.total), unique: Number(r.unique_members) }));
   }
-  const sql = `SELECT DATE_FORMAT(checkin_date, '%Y-%m') AS month, COUNT(*) AS total
+  const sql = `SELECT DATE_FORMAT(checkin_date, '%Y-%m') AS month, COUNT(*) AS total, COUNT(DISTINCT member_id) AS unique_members
                FROM visitor_count
-               WHERE checkin_date >= DATE_SUB(DATE_FORMAT(CURDATE(), '%Y-%m-01'), INTERVAL 11 MONTH)
+               WHERE checkin_date >= ?${synthetic.sql()}
                GROUP BY month
                ORDER BY month DESC`;
-  const [rows] = await pool.query(sql);
-  return (rows as any[]).map(r => ({ month: r.month, total: Number(r.total) }));
+  const [rows] = await pool.query(sql, [startOfMonth(new Date(), -11)]);
+  return (rows as any[]).map(r => ({ month: r.month, total: Number(r.total), unique: Number(r.unique_members) }));
 }
 
-export interface YearlyTotal { year: number; total: number; }
+export interface YearlyTotal { year: number; total: number; unique: number; }
 
 export async function getYearlyTotalsLast5Years(): Promise<YearlyTotal[]> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
-    const now = new Date();
-    const start = new Date(now.getFullYear() - 4, 0, 1); // Jan 1 (currentYear-4)
+    const start = startOfYear(new Date(), -4); // Jan 1 (currentYear-4)
     const rows = await Visitor.findAll({
       attributes: [
         [fn('YEAR', col('checkin_date')), 'year'],
-        [fn('COUNT', col('*')), 'total']
+        [fn('COUNT', col('*')), 'total'],
+        [fn('COUNT', fn('DISTINCT', col('member_id'))), 'unique_members']
       ],
-      where: { checkin_date: { [Op.gte]: start } },
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start } },
       group: [fn('YEAR', col('checkin_date'))],
       // Descending so latest year first
       order: [[fn('YEAR', col('checkin_date')), 'DESC']],
       raw: true
     });
-    return rows.map((r: any) => ({ year: Number(r.year), total: Number(r.total) }));
+    return rows.map((r: any) => ({ year: Number(r.year), total: Number(r.total), unique: Number(r.unique_members) }));
   }
-  const sql = `SELECT YEAR(checkin_date) AS year, COUNT(*) AS total
+  const sql = `SELECT YEAR(checkin_date) AS year, COUNT(*) AS total, COUNT(DISTINCT member_id) AS unique_members
                FROM visitor_count
-               WHERE checkin_date >= DATE_SUB(DATE_FORMAT(CURDATE(), '%Y-01-01'), INTERVAL 4 YEAR)
+               WHERE checkin_date >= ?${synthetic.sql()}
                GROUP BY YEAR(checkin_date)
                ORDER BY year DESC`;
-  const [rows] = await pool.query(sql);
-  return (rows as any[]).map(r => ({ year: Number(r.year), total: Number(r.total) }));
+  const [rows] = await pool.query(sql, [startOfYear(new Date(), -4)]);
+  return (rows as any[]).map(r => ({ year: Number(r.year), total: Number(r.total), unique: Number(r.unique_members) }));
 }
 
-export interface MonthlyTopVisitor {
-  month: string; // YYYY-MM (current month only in this implementation)
-  member_id: string | null;
-  member_name: string | null;
-  institution: string | null;
-  fakultas: string | null;
+export interface VisitorRangeResult {
+  from: string;
+  to: string;
+  granularity: Granularity;
   total: number;
+  buckets: Bucket[];
 }
 
-// Returns top N visitors (grouped by member) for the CURRENT month only.
-export async function getCurrentMonthTopVisitors(limit = 10): Promise<MonthlyTopVisitor[]> {
-  const now = new Date();
-  const mStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  const mEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-  const monthKey = `${mStart.getFullYear()}-${String(mStart.getMonth() + 1).padStart(2, '0')}`;
-  const results: MonthlyTopVisitor[] = [];
+// Arbitrary window aggregation: counts check-ins in [range.start, range.end) grouped by
+// the requested granularity, zero-filling buckets with no visits.
+export async function getVisitorCountsInRange(range: DateRange, granularity: Granularity): Promise<VisitorRangeResult> {
+  const synthetic = await syntheticFilter();
+  const bucketExpr = sqlBucketExpr('checkin_date', granularity);
+  let rows: Array<{ bucket: string; total: number }>;
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
-    const rows = await Visitor.findAll({
+    const raw = await Visitor.findAll({
       attributes: [
-        'member_id',
-        'member_name',
-        'institution',
+        [literal(bucketExpr), 'bucket'],
         [fn('COUNT', col('*')), 'total']
       ],
-      where: { checkin_date: { [Op.gte]: mStart, [Op.lt]: mEnd } },
-      group: ['member_id', 'member_name', 'institution'],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: range.start, [Op.lt]: range.end } },
+      group: [literal(bucketExpr)],
+      raw: true
+    });
+    rows = (raw as any[]).map(r => ({ bucket: String(r.bucket), total: Number(r.total) }));
+  } else {
+    const sql = `SELECT ${bucketExpr} AS bucket, COUNT(*) AS total
+                 FROM visitor_count
+                 WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                 GROUP BY bucket`;
+    const [raw] = await pool.query(sql, [range.start, range.end]);
+    rows = (raw as any[]).map(r => ({ bucket: String(r.bucket), total: Number(r.total) }));
+  }
+  const buckets = zeroFill(range.start, range.end, granularity, rows);
+  const total = buckets.reduce((sum, b) => sum + b.total, 0);
+  return { from: range.from, to: range.to, granularity, total, buckets };
+}
+
+export interface BucketVisits { bucket: string; total: number; unique: number; }
+
+// Sparse per-bucket visits + distinct members in [start, end) (buckets without visits are absent).
+export async function getVisitorBucketCounts(start: Date, end: Date, granularity: Granularity): Promise<BucketVisits[]> {
+  const synthetic = await syntheticFilter();
+  const bucketExpr = sqlBucketExpr('checkin_date', granularity);
+  let rows: any[];
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    rows = await Visitor.findAll({
+      attributes: [
+        [literal(bucketExpr), 'bucket'],
+        [fn('COUNT', col('*')), 'total'],
+        [fn('COUNT', fn('DISTINCT', col('member_id'))), 'unique_members']
+      ],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      group: [literal(bucketExpr)],
+      raw: true
+    });
+  } else {
+    const sql = `SELECT ${bucketExpr} AS bucket, COUNT(*) AS total, COUNT(DISTINCT member_id) AS unique_members
+                 FROM visitor_count
+                 WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                 GROUP BY bucket`;
+    const [raw] = await pool.query(sql, [start, end]);
+    rows = raw as any[];
+  }
+  return rows.map(r => ({ bucket: String(r.bucket), total: Number(r.total), unique: Number(r.unique_members) }));
+}
+
+export interface InstitutionCount { institution: string | null; total: number; }
+
+// Check-ins per institution (fakultas code) in [start, end), no limit.
+export async function getCountsByInstitution(start: Date, end: Date): Promise<InstitutionCount[]> {
+  const synthetic = await syntheticFilter();
+  let rows: any[];
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    rows = await Visitor.findAll({
+      attributes: [[literal(facultyCodeSql()), 'institution_code'], [fn('COUNT', col('*')), 'total']],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      group: ['institution_code'],
       order: [[fn('COUNT', col('*')), 'DESC']],
-      limit,
       raw: true
     });
-    for (const r of rows as any[]) {
-      results.push({
-        month: monthKey,
-        member_id: r.member_id,
-        member_name: r.member_name,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
   } else {
-    const sql = `SELECT member_id, member_name, institution, COUNT(*) AS total
+    const sql = `SELECT ${facultyCodeSql()} AS institution_code, COUNT(*) AS total
                  FROM visitor_count
-                 WHERE checkin_date >= ? AND checkin_date < ?
-                 GROUP BY member_id, member_name, institution
-                 ORDER BY total DESC
-                 LIMIT ${limit}`;
-    const [rows] = await pool.query(sql, [mStart, mEnd]);
-    for (const r of rows as any[]) {
-      results.push({
-        month: monthKey,
-        member_id: r.member_id,
-        member_name: r.member_name,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
+                 WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                 GROUP BY institution_code
+                 ORDER BY total DESC`;
+    const [raw] = await pool.query(sql, [start, end]);
+    rows = raw as any[];
   }
-  return results;
+  return rows.map(r => ({ institution: r.institution_code, total: Number(r.total) }));
+}
+
+// Day-of-week x hour-of-day heatmap. Rows follow MySQL WEEKDAY() (0 = Monday .. 6 = Sunday).
+export const HEATMAP_DEFAULT_DAYS = Number(process.env.VISITOR_HEATMAP_DAYS || 90);
+const HEATMAP_DAY_LABELS = ['Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu', 'Minggu'];
+
+export interface HeatmapCell { total: number; average: number; }
+
+export interface HeatmapSlot {
+  weekday: number;
+  day: string;
+  hour: number;
+  total: number;
+  average: number;
+}
+
+export interface VisitorHeatmap {
+  period_start: string; // YYYY-MM-DD (inclusive)
+  period_end: string;   // YYYY-MM-DD (exclusive, i.e. today)
+  days: number;
+  day_labels: string[];
+  matrix: HeatmapCell[][]; // [weekday][hour]
+  peak: HeatmapSlot | null;
+  top_slots: HeatmapSlot[];
+}
+
+// Aggregates the last `days` complete days (today excluded so averages are not skewed
+// by a partial day). Average = total / number of occurrences of that weekday in the period.
+export async function getVisitorHeatmap(days = HEATMAP_DEFAULT_DAYS): Promise<VisitorHeatmap> {
+  const synthetic = await syntheticFilter();
+  const end = startOfDay();
+  const start = addDays(end, -days);
+
+  let rows: Array<{ wd: number; hr: number; total: number }>;
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    const raw = await Visitor.findAll({
+      attributes: [
+        [literal('WEEKDAY(checkin_date)'), 'wd'],
+        [fn('HOUR', col('checkin_date')), 'hr'],
+        [fn('COUNT', col('*')), 'total']
+      ],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      group: [literal('WEEKDAY(checkin_date)'), fn('HOUR', col('checkin_date'))],
+      raw: true
+    });
+    rows = (raw as any[]).map(r => ({ wd: Number(r.wd), hr: Number(r.hr), total: Number(r.total) }));
+  } else {
+    const sql = `SELECT WEEKDAY(checkin_date) AS wd, HOUR(checkin_date) AS hr, COUNT(*) AS total
+                 FROM visitor_count
+                 WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                 GROUP BY wd, hr`;
+    const [raw] = await pool.query(sql, [start, end]);
+    rows = (raw as any[]).map(r => ({ wd: Number(r.wd), hr: Number(r.hr), total: Number(r.total) }));
+  }
+
+  // How many times each weekday occurs in [start, end)
+  const occurrences = new Array<number>(7).fill(0);
+  for (let d = start; d < end; d = addDays(d, 1)) {
+    const wd = zonedParts(d).weekday;
+    occurrences[wd] = (occurrences[wd] || 0) + 1;
+  }
+
+  const matrix: HeatmapCell[][] = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => ({ total: 0, average: 0 })));
+  for (const r of rows) {
+    const cell = matrix[r.wd]?.[r.hr];
+    if (!cell) continue;
+    cell.total = r.total;
+    const occ = occurrences[r.wd] || 0;
+    cell.average = occ > 0 ? Math.round((r.total / occ) * 100) / 100 : 0;
+  }
+
+  const slots: HeatmapSlot[] = [];
+  matrix.forEach((hours, wd) => hours.forEach((cell, hr) => {
+    if (cell.total > 0) slots.push({ weekday: wd, day: HEATMAP_DAY_LABELS[wd] || String(wd), hour: hr, total: cell.total, average: cell.average });
+  }));
+  slots.sort((a, b) => b.average - a.average || b.total - a.total);
+
+  return {
+    period_start: formatDay(start),
+    period_end: formatDay(end),
+    days,
+    day_labels: HEATMAP_DAY_LABELS,
+    matrix,
+    peak: slots[0] || null,
+    top_slots: slots.slice(0, 5)
+  };
+}
+
+// Leaderboard position of an entry, compared with the period before (previous month / year)
+export interface LeaderboardRank {
+  rank: number;                  // competition ranking: equal totals share a rank (1, 2, 2, 4)
+  previous_rank: number | null;  // null = not ranked in the previous period (top LEADERBOARD_PREVIOUS_DEPTH)
+  movement: 'up' | 'down' | 'same' | 'new';
 }
 
-export interface YearlyTopVisitor {
-  year: number; // current year only in this implementation
+export interface LeaderboardOptions {
+  limit?: number;
+  fakultas?: string | null; // fakultas code; visitor leaderboards only
+}
+
+export interface MonthlyTopVisitor extends LeaderboardRank {
+  month: string; // YYYY-MM
   member_id: string | null;
   member_name: string | null;
   institution: string | null;
@@ -370,29 +700,41 @@ export interface YearlyTopVisitor {
   total: number;
 }
 
-export interface MonthlyTopFaculty {
-  month: string; // YYYY-MM (current month only in this implementation)
+export interface YearlyTopVisitor extends LeaderboardRank {
+  year: number;
+  member_id: string | null;
+  member_name: string | null;
   institution: string | null;
   fakultas: string | null;
   total: number;
 }
 
-export interface YearlyTopFaculty {
-  year: number; // current year only in this implementation
+export interface MonthlyTopFaculty extends LeaderboardRank {
+  month: string; // YYYY-MM
   institution: string | null;
   fakultas: string | null;
   total: number;
 }
 
-// Returns top N visitors (grouped by member) for the CURRENT year only.
-export async function getCurrentYearTopVisitors(limit = 10): Promise<YearlyTopVisitor[]> {
-  const now = new Date();
-  const y = now.getFullYear();
-  const yStart = new Date(y, 0, 1);
-  const yEnd = new Date(y + 1, 0, 1);
-  const results: YearlyTopVisitor[] = [];
+export interface YearlyTopFaculty extends LeaderboardRank {
+  year: number;
+  institution: string | null;
+  fakultas: string | null;
+  total: number;
+}
+
+// How deep the previous period is ranked to find previous_rank
+const LEADERBOARD_PREVIOUS_DEPTH = 100;
+
+interface TopVisitorRow { member_id: string | null; member_name: string | null; institution: string | null; total: number }
+interface TopFacultyRow { institution: string | null; total: number }
+
+// Top members by visits in [start, end), optionally within one fakultas
+async function queryTopVisitors(start: Date, end: Date, limit: number, fakultas?: string | null): Promise<TopVisitorRow[]> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
+    const range = { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } };
     const rows = await Visitor.findAll({
       attributes: [
         'member_id',
@@ -400,220 +742,417 @@ export async function getCurrentYearTopVisitors(limit = 10): Promise<YearlyTopVi
         'institution',
         [fn('COUNT', col('*')), 'total']
       ],
-      where: { checkin_date: { [Op.gte]: yStart, [Op.lt]: yEnd } },
+      where: fakultas ? { [Op.and]: [range, sqlWhere(literal(facultyCodeSql()), fakultas)] } : range,
       group: ['member_id', 'member_name', 'institution'],
-      order: [[fn('COUNT', col('*')), 'DESC']],
+      order: [[fn('COUNT', col('*')), 'DESC'], ['member_id', 'ASC']],
       limit,
       raw: true
     });
-    for (const r of rows as any[]) {
-      results.push({
-        year: y,
-        member_id: r.member_id,
-        member_name: r.member_name,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
-  } else {
-    const sql = `SELECT member_id, member_name, institution, COUNT(*) AS total
-                 FROM visitor_count
-                 WHERE checkin_date >= ? AND checkin_date < ?
-                 GROUP BY member_id, member_name, institution
-                 ORDER BY total DESC
-                 LIMIT ${limit}`;
-    const [rows] = await pool.query(sql, [yStart, yEnd]);
-    for (const r of rows as any[]) {
-      results.push({
-        year: y,
-        member_id: r.member_id,
-        member_name: r.member_name,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
+    return (rows as any[]).map(r => ({ member_id: r.member_id, member_name: r.member_name, institution: r.institution, total: Number(r.total) }));
   }
-  return results;
+  const sql = `SELECT member_id, member_name, institution, COUNT(*) AS total
+               FROM visitor_count
+               WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}${fakultas ? ` AND ${facultyCodeSql()} = ?` : ''}
+               GROUP BY member_id, member_name, institution
+               ORDER BY total DESC, member_id ASC
+               LIMIT ${limit}`;
+  const [rows] = await pool.query(sql, fakultas ? [start, end, fakultas] : [start, end]);
+  return (rows as any[]).map(r => ({ member_id: r.member_id, member_name: r.member_name, institution: r.institution, total: Number(r.total) }));
 }
 
-// Returns top N faculties (grouped by institution) for the CURRENT month only.
-export async function getCurrentMonthTopFaculties(limit = 10): Promise<MonthlyTopFaculty[]> {
-  const now = new Date();
-  const mStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  const mEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-  const monthKey = `${mStart.getFullYear()}-${String(mStart.getMonth() + 1).padStart(2, '0')}`;
-  const results: MonthlyTopFaculty[] = [];
-  
+// Top faculties (institution code, NIM fallback) by visits in [start, end)
+async function queryTopFaculties(start: Date, end: Date, limit: number): Promise<TopFacultyRow[]> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
     const rows = await Visitor.findAll({
       attributes: [
-        'institution',
+        [literal(facultyCodeSql()), 'institution_code'],
         [fn('COUNT', col('*')), 'total']
       ],
-      where: { checkin_date: { [Op.gte]: mStart, [Op.lt]: mEnd } },
-      group: ['institution'],
-      order: [[fn('COUNT', col('*')), 'DESC']],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      group: ['institution_code'],
+      order: [[fn('COUNT', col('*')), 'DESC'], [literal('institution_code'), 'ASC']],
       limit,
       raw: true
     });
-    for (const r of rows as any[]) {
-      results.push({
-        month: monthKey,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
-  } else {
-    const sql = `SELECT institution, COUNT(*) AS total
-                 FROM visitor_count
-                 WHERE checkin_date >= ? AND checkin_date < ?
-                 GROUP BY institution
-                 ORDER BY total DESC
-                 LIMIT ${limit}`;
-    const [rows] = await pool.query(sql, [mStart, mEnd]);
-    for (const r of rows as any[]) {
-      results.push({
-        month: monthKey,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
+    return (rows as any[]).map(r => ({ institution: r.institution_code, total: Number(r.total) }));
   }
-  return results;
+  const sql = `SELECT ${facultyCodeSql()} AS institution_code, COUNT(*) AS total
+               FROM visitor_count
+               WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+               GROUP BY institution_code
+               ORDER BY total DESC, institution_code ASC
+               LIMIT ${limit}`;
+  const [rows] = await pool.query(sql, [start, end]);
+  return (rows as any[]).map(r => ({ institution: r.institution_code, total: Number(r.total) }));
 }
 
-// Returns top N faculties (grouped by institution) for the CURRENT year only.
-export async function getCurrentYearTopFaculties(limit = 10): Promise<YearlyTopFaculty[]> {
-  const now = new Date();
-  const y = now.getFullYear();
-  const yStart = new Date(y, 0, 1);
-  const yEnd = new Date(y + 1, 0, 1);
-  const results: YearlyTopFaculty[] = [];
-  
+// Competition ranks for rows sorted by total DESC
+function competitionRanks(rows: { total: number }[]): number[] {
+  const ranks: number[] = [];
+  rows.forEach((r, i) => ranks.push(i > 0 && r.total === rows[i - 1]!.total ? ranks[i - 1]! : i + 1));
+  return ranks;
+}
+
+function withRanks<T extends { total: number }>(rows: T[], previousRows: T[], keyOf: (r: T) => string | null): (T & LeaderboardRank)[] {
+  const previous = new Map<string, number>();
+  const previousRanks = competitionRanks(previousRows);
+  previousRows.forEach((r, i) => {
+    const key = keyOf(r);
+    if (key !== null && !previous.has(key)) previous.set(key, previousRanks[i]!);
+  });
+  const ranks = competitionRanks(rows);
+  return rows.map((r, i) => {
+    const rank = ranks[i]!;
+    const key = keyOf(r);
+    const previous_rank = key === null ? null : previous.get(key) ?? null;
+    const movement: LeaderboardRank['movement'] = previous_rank === null ? 'new' : previous_rank > rank ? 'up' : previous_rank < rank ? 'down' : 'same';
+    return { ...r, rank, previous_rank, movement };
+  });
+}
+
+async function rankedTopVisitors(period: 'month' | 'year', key: string | undefined, options: LeaderboardOptions) {
+  const w = periodWindow(period, key);
+  const previousStart = period === 'month' ? startOfMonth(w.start, -1) : startOfYear(w.start, -1);
+  const limit = options.limit ?? 10;
+  const [rows, previousRows] = await Promise.all([
+    queryTopVisitors(w.start, w.end, limit, options.fakultas),
+    queryTopVisitors(previousStart, w.start, Math.max(limit, LEADERBOARD_PREVIOUS_DEPTH), options.fakultas)
+  ]);
+  const ranked = withRanks(rows, previousRows, r => r.member_id).map(r => ({ ...r, fakultas: getFakultasName(r.institution, r.member_id) }));
+  return { key: w.key, rows: ranked };
+}
+
+async function rankedTopFaculties(period: 'month' | 'year', key: string | undefined, limit: number) {
+  const w = periodWindow(period, key);
+  const previousStart = period === 'month' ? startOfMonth(w.start, -1) : startOfYear(w.start, -1);
+  const [rows, previousRows] = await Promise.all([
+    queryTopFaculties(w.start, w.end, limit),
+    queryTopFaculties(previousStart, w.start, Math.max(limit, LEADERBOARD_PREVIOUS_DEPTH))
+  ]);
+  const ranked = withRanks(rows, previousRows, r => r.institution).map(r => ({ ...r, fakultas: getFakultasName(r.institution) }));
+  return { key: w.key, rows: ranked };
+}
+
+// Top N visitors (grouped by member) for a month (YYYY-MM, default current) with rank movement vs the month before.
+export async function getMonthTopVisitors(month?: string, options: LeaderboardOptions = {}): Promise<MonthlyTopVisitor[]> {
+  const { key, rows } = await rankedTopVisitors('month', month, options);
+  return rows.map(r => ({ month: key, ...r }));
+}
+
+// Top N visitors (grouped by member) for a year (default current) with rank movement vs the year before.
+export async function getYearTopVisitors(year?: number, options: LeaderboardOptions = {}): Promise<YearlyTopVisitor[]> {
+  const { key, rows } = await rankedTopVisitors('year', year === undefined ? undefined : String(year), options);
+  return rows.map(r => ({ year: Number(key), ...r }));
+}
+
+// Top N faculties for a month (YYYY-MM, default current) with rank movement vs the month before.
+export async function getMonthTopFaculties(month?: string, limit = 10): Promise<MonthlyTopFaculty[]> {
+  const { key, rows } = await rankedTopFaculties('month', month, limit);
+  return rows.map(r => ({ month: key, ...r }));
+}
+
+// Top N faculties for a year (default current) with rank movement vs the year before.
+export async function getYearTopFaculties(year?: number, limit = 10): Promise<YearlyTopFaculty[]> {
+  const { key, rows } = await rankedTopFaculties('year', year === undefined ? undefined : String(year), limit);
+  return rows.map(r => ({ year: Number(key), ...r }));
+}
+
+// ---- Per-room aggregates (visitor_count.room_code) ----
+
+export interface RoomCount { room_code: string | null; total: number; }
+
+export interface RoomSeries { room_code: string | null; buckets: Bucket[]; total: number; }
+
+export interface RoomTopEntry {
+  period: string; // YYYY-MM or YYYY
+  room_code: string | null;
+  total: number;
+}
+
+export interface RoomTopVisitors {
+  room_code: string | null;
+  visitors: Omit<MonthlyTopVisitor, keyof LeaderboardRank>[];
+}
+
+async function queryCountsByRoom(start: Date, end: Date, limit?: number): Promise<RoomCount[]> {
+  const synthetic = await syntheticFilter();
   if (USE_SEQUELIZE) {
     const Visitor = await getVisitorModel();
     const rows = await Visitor.findAll({
-      attributes: [
-        'institution',
-        [fn('COUNT', col('*')), 'total']
-      ],
-      where: { checkin_date: { [Op.gte]: yStart, [Op.lt]: yEnd } },
-      group: ['institution'],
+      attributes: ['room_code', [fn('COUNT', col('*')), 'total']],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      group: ['room_code'],
       order: [[fn('COUNT', col('*')), 'DESC']],
-      limit,
+      ...(limit ? { limit } : {}),
       raw: true
     });
-    for (const r of rows as any[]) {
-      results.push({
-        year: y,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
+    return (rows as any[]).map(r => ({ room_code: r.room_code, total: Number(r.total) }));
+  }
+  const sql = `SELECT room_code, COUNT(*) AS total
+               FROM visitor_count
+               WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+               GROUP BY room_code
+               ORDER BY total DESC${limit ? ` LIMIT ${Number(limit)}` : ''}`;
+  const [rows] = await pool.query(sql, [start, end]);
+  return (rows as any[]).map(r => ({ room_code: r.room_code, total: Number(r.total) }));
+}
+
+async function queryRoomSeries(start: Date, end: Date, granularity: Granularity): Promise<RoomSeries[]> {
+  const synthetic = await syntheticFilter();
+  const bucketExpr = sqlBucketExpr('checkin_date', granularity);
+  let rows: Array<{ room_code: string | null; bucket: string; total: number }>;
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    const raw = await Visitor.findAll({
+      attributes: ['room_code', [literal(bucketExpr), 'bucket'], [fn('COUNT', col('*')), 'total']],
+      where: { ...synthetic.where, checkin_date: { [Op.gte]: start, [Op.lt]: end } },
+      group: ['room_code', literal(bucketExpr)],
+      raw: true
+    });
+    rows = (raw as any[]).map(r => ({ room_code: r.room_code, bucket: String(r.bucket), total: Number(r.total) }));
   } else {
-    const sql = `SELECT institution, COUNT(*) AS total
+    const sql = `SELECT room_code, ${bucketExpr} AS bucket, COUNT(*) AS total
                  FROM visitor_count
-                 WHERE checkin_date >= ? AND checkin_date < ?
-                 GROUP BY institution
-                 ORDER BY total DESC
-                 LIMIT ${limit}`;
-    const [rows] = await pool.query(sql, [yStart, yEnd]);
-    for (const r of rows as any[]) {
-      results.push({
-        year: y,
-        institution: r.institution,
-        fakultas: getFakultasName(r.institution),
-        total: Number(r.total)
-      });
-    }
+                 WHERE checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                 GROUP BY room_code, bucket`;
+    const [raw] = await pool.query(sql, [start, end]);
+    rows = (raw as any[]).map(r => ({ room_code: r.room_code, bucket: String(r.bucket), total: Number(r.total) }));
   }
-  return results;
+  const byRoom = new Map<string | null, Array<{ bucket: string; total: number }>>();
+  for (const r of rows) {
+    const list = byRoom.get(r.room_code) || [];
+    list.push({ bucket: r.bucket, total: r.total });
+    byRoom.set(r.room_code, list);
+  }
+  return [...byRoom.entries()]
+    .map(([room_code, list]) => {
+      const buckets = zeroFill(start, end, granularity, list);
+      return { room_code, buckets, total: buckets.reduce((sum, b) => sum + b.total, 0) };
+    })
+    .sort((a, b) => b.total - a.total);
 }
 
-// Dummy visitor generation
-let dummyGenerationInterval: NodeJS.Timeout | null = null;
-let isDummyGenerationRunning = false;
+export async function getTodayCountsByRoom(): Promise<RoomCount[]> {
+  const { start, end } = getTodayRange();
+  return queryCountsByRoom(start, end);
+}
 
-export function getDummyGenerationStatus(): { running: boolean; interval: NodeJS.Timeout | null } {
-  return { running: isDummyGenerationRunning, interval: dummyGenerationInterval };
+// Last 7 days (today included) per room, one bucket per day
+export async function getDailyCountsThisWeekByRoom(): Promise<RoomSeries[]> {
+  const { end } = getTodayRange();
+  return queryRoomSeries(addDays(end, -7), end, 'day');
 }
 
-export function startDummyGeneration(): { success: boolean; message: string } {
-  if (isDummyGenerationRunning) {
-    return { success: false, message: 'Dummy generation is already running' };
-  }
+// Last 12 months (current month included) per room, one bucket per month
+export async function getMonthlyTotalsLastYearByRoom(): Promise<RoomSeries[]> {
+  const start = startOfMonth(new Date(), -11);
+  const end = startOfMonth(new Date(), 1);
+  return queryRoomSeries(start, end, 'month');
+}
 
-  isDummyGenerationRunning = true;
-  dummyGenerationInterval = setInterval(async () => {
-    try {
-      await generateDummyVisitor();
-    } catch (error) {
-      console.error('[dummy-generation] Error generating dummy visitor:', error);
-    }
-  }, 60000); // 1 menit = 60000ms
+export async function getCurrentMonthTopRooms(limit = 10): Promise<RoomTopEntry[]> {
+  const mStart = startOfMonth();
+  const mEnd = startOfMonth(new Date(), 1);
+  const monthKey = formatMonth(mStart);
+  const rows = await queryCountsByRoom(mStart, mEnd, limit);
+  return rows.map(r => ({ period: monthKey, room_code: r.room_code, total: r.total }));
+}
 
-  console.log('[dummy-generation] Started generating dummy visitors every 1 minute');
-  return { success: true, message: 'Dummy generation started successfully' };
+export async function getCurrentYearTopRooms(limit = 10): Promise<RoomTopEntry[]> {
+  const y = currentYear();
+  const rows = await queryCountsByRoom(startOfYear(), startOfYear(new Date(), 1), limit);
+  return rows.map(r => ({ period: String(y), room_code: r.room_code, total: r.total }));
 }
 
-export function stopDummyGeneration(): { success: boolean; message: string } {
-  if (!isDummyGenerationRunning) {
-    return { success: false, message: 'Dummy generation is not running' };
+// Top N visitors of the CURRENT month for every room that had visits this month.
+export async function getCurrentMonthTopVisitorsByRoom(limit = 10): Promise<RoomTopVisitors[]> {
+  const synthetic = await syntheticFilter();
+  const mStart = startOfMonth();
+  const mEnd = startOfMonth(new Date(), 1);
+  const monthKey = formatMonth(mStart);
+  const rooms = await queryCountsByRoom(mStart, mEnd);
+  const results: RoomTopVisitors[] = [];
+  for (const room of rooms) {
+    let rows: any[];
+    if (USE_SEQUELIZE) {
+      const Visitor = await getVisitorModel();
+      rows = await Visitor.findAll({
+        attributes: ['member_id', 'member_name', 'institution', [fn('COUNT', col('*')), 'total']],
+        where: { ...synthetic.where, room_code: room.room_code, checkin_date: { [Op.gte]: mStart, [Op.lt]: mEnd } },
+        group: ['member_id', 'member_name', 'institution'],
+        order: [[fn('COUNT', col('*')), 'DESC']],
+        limit,
+        raw: true
+      });
+    } else {
+      const sql = `SELECT member_id, member_name, institution, COUNT(*) AS total
+                   FROM visitor_count
+                   WHERE room_code <=> ? AND checkin_date >= ? AND checkin_date < ?${synthetic.sql()}
+                   GROUP BY member_id, member_name, institution
+                   ORDER BY total DESC
+                   LIMIT ${limit}`;
+      const [raw] = await pool.query(sql, [room.room_code, mStart, mEnd]);
+      rows = raw as any[];
+    }
+    results.push({
+      room_code: room.room_code,
+      visitors: rows.map(r => ({
+        month: monthKey,
+        member_id: r.member_id,
+        member_name: r.member_name,
+        institution: r.institution,
+        fakultas: getFakultasName(r.institution, r.member_id),
+        total: Number(r.total)
+      }))
+    });
   }
+  return results;
+}
 
-  if (dummyGenerationInterval) {
-    clearInterval(dummyGenerationInterval);
-    dummyGenerationInterval = null;
-  }
-  isDummyGenerationRunning = false;
+// ---- Kiosk check-in (write path) ----
 
-  console.log('[dummy-generation] Stopped generating dummy visitors');
-  return { success: true, message: 'Dummy generation stopped successfully' };
+// Repeat taps by the same member within this window are rejected (seconds).
+const CHECKIN_DUPLICATE_WINDOW_SECONDS = Number(process.env.CHECKIN_DUPLICATE_WINDOW_SECONDS || 300);
+const CHECKIN_LAST_PREFIX = 'visitors:checkin:last';
+
+export interface CheckinInput {
+  member_id: string;
+  room_code?: string | null;
 }
 
-async function generateDummyVisitor(): Promise<void> {
-  const institutions = ['01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12', '13', '14', '15', '16'];
-  const memberNames = [
-    'Ahmad Rizki', 'Siti Nurhaliza', 'Budi Santoso', 'Dewi Kartika', 'Eko Prasetyo',
-    'Fina Rahayu', 'Gunawan Sari', 'Hesti Wulandari', 'Indra Kurniawan', 'Jihan Putri',
-    'Kurniawan Adi', 'Lina Marlina', 'Muhammad Ali', 'Nina Sari', 'Oscar Wijaya',
-    'Putri Maharani', 'Qori Sandria', 'Rizki Pratama', 'Sari Dewi', 'Tono Wijaya'
-  ];
-  const roomCodes = ['A101', 'A102', 'B201', 'B202', 'C301', 'C302', 'D401', 'D402'];
+export type CheckinStatus = 'created' | 'member_not_found' | 'member_pending' | 'duplicate';
 
-  const randomInstitution = institutions[Math.floor(Math.random() * institutions.length)];
-  const randomMemberName = memberNames[Math.floor(Math.random() * memberNames.length)];
-  const randomRoomCode = roomCodes[Math.floor(Math.random() * roomCodes.length)];
-  const randomMemberId = `M${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
+export interface CheckinResult {
+  success: boolean;
+  status: CheckinStatus;
+  message: string;
+  visitor?: VisitorRow;
+  today_total?: number;
+  retry_after_seconds?: number;
+}
 
-  const now = new Date();
-  const checkinDate = new Date(now.getTime() - Math.random() * 24 * 60 * 60 * 1000); // Random time within last 24 hours
+interface SlimsMember {
+  member_id: string;
+  member_name: string | null;
+  inst_name: string | null;
+  is_pending: number | null;
+}
 
+async function findSlimsMember(memberId: string): Promise<SlimsMember | null> {
+  const sql = `SELECT member_id, member_name, inst_name, is_pending
+               FROM member
+               WHERE member_id = ?
+               LIMIT 1`;
+  let rows: SlimsMember[];
   if (USE_SEQUELIZE) {
-    const Visitor = await getVisitorModel();
-    await Visitor.create({
-      member_id: randomMemberId,
-      member_name: randomMemberName,
-      institution: randomInstitution,
-      room_code: randomRoomCode,
-      checkin_date: checkinDate
-    });
+    const { sequelize } = await import('../db/sequelize.js');
+    rows = await sequelize.query(sql, { replacements: [memberId], type: QueryTypes.SELECT }) as SlimsMember[];
   } else {
-    const sql = `INSERT INTO visitor_count (member_id, member_name, institution, room_code, checkin_date) VALUES (?, ?, ?, ?, ?)`;
-    await pool.query(sql, [randomMemberId, randomMemberName, randomInstitution, randomRoomCode, checkinDate]);
+    const [raw] = await pool.query(sql, [memberId]);
+    rows = raw as SlimsMember[];
   }
+  return rows[0] || null;
+}
 
-  // Increment today count if it's today
-  const today = new Date();
-  if (checkinDate.toDateString() === today.toDateString()) {
+export async function recordCheckin(input: CheckinInput): Promise<CheckinResult> {
+  const memberId = input.member_id.trim();
+  const member = await findSlimsMember(memberId);
+  if (!member) {
+    return { success: false, status: 'member_not_found', message: 'Member not found' };
+  }
+  if (Number(member.is_pending) === 1) {
+    return { success: false, status: 'member_pending', message: 'Membership is pending' };
+  }
+
+  // SET NX doubles as the duplicate check and the lock, so two racing taps cannot both insert
+  const lastKey = `${CHECKIN_LAST_PREFIX}:${memberId}`;
+  const acquired = await redis.set(lastKey, new Date().toISOString(), 'EX', CHECKIN_DUPLICATE_WINDOW_SECONDS, 'NX');
+  if (!acquired) {
+    const ttl = await redis.ttl(lastKey);
+    return {
+      success: false,
+      status: 'duplicate',
+      message: 'Already checked in recently',
+      retry_after_seconds: ttl > 0 ? ttl : CHECKIN_DUPLICATE_WINDOW_SECONDS
+    };
+  }
+
+  const institution = resolveInstitution(memberId, member.inst_name);
+  const roomCode = input.room_code ? input.room_code.trim() : null;
+  const checkinDate = new Date();
+  let visitorId: number;
+  try {
+    if (USE_SEQUELIZE) {
+      const Visitor = await getVisitorModel();
+      const created = await Visitor.create({
+        member_id: memberId,
+        member_name: member.member_name,
+        institution,
+        room_code: roomCode,
+        checkin_date: checkinDate
+      });
+      visitorId = Number(created.visitor_id);
+    } else {
+      const sql = `INSERT INTO visitor_count (member_id, member_name, institution, room_code, checkin_date) VALUES (?, ?, ?, ?, ?)`;
+      const [res] = await pool.query(sql, [memberId, member.member_name, institution, roomCode, checkinDate]);
+      visitorId = Number((res as any).insertId);
+    }
+  } catch (e) {
+    // Do not block the member's next tap because of a failed insert
+    await redis.del(lastKey);
+    throw e;
+  }
+
+  if (realRowsVisible()) {
     await incrementTodayCount(1);
+    await recordUniqueVisitor(memberId);
   }
 
-  console.log(`[dummy-generation] Generated visitor: ${randomMemberName} (${randomInstitution}) at ${checkinDate.toISOString()}`);
-}
\ No newline at end of file
+  // Push the new total right away instead of waiting for the next fast-loop tick
+  const [todayTotal, todayUnique] = await Promise.all([getTodayCount(), getTodayUniqueCount()]);
+  await redis.multi()
+    .set(CACHE_KEYS.TODAY_COUNT, String(todayTotal), 'EX', 30)
+    .set(CACHE_KEYS.TODAY_UNIQUE, String(todayUnique), 'EX', 30)
+    .exec();
+  emitTodayVisitor(todayTotal, todayUnique);
+
+  return {
+    success: true,
+    status: 'created',
+    message: 'Check-in recorded',
+    visitor: {
+      visitor_id: visitorId,
+      member_id: memberId,
+      member_name: member.member_name,
+      institution,
+      fakultas: getFakultasName(institution, memberId),
+      room_code: roomCode,
+      checkin_date: checkinDate.toISOString()
+    },
+    today_total: todayTotal
+  };
+}
+
+// Bulk insert for generated traffic (simulator), tagged with `batch` in synthetic_batch. Rows
+// checked in today also feed the today counter and the unique-today HyperLogLog like a kiosk
+// check-in, unless this instance hides synthetic rows (SYNTHETIC_DATA_MODE=exclude).
+export type NewVisitorRow = Omit<VisitorRow, 'visitor_id' | 'fakultas' | 'checkin_date'> & { checkin_date: Date };
+
+export async function insertVisitorRows(rows: NewVisitorRow[], batch: string): Promise<void> {
+  if (!rows.length) return;
+  if (USE_SEQUELIZE) {
+    const Visitor = await getVisitorModel();
+    await Visitor.bulkCreate(rows.map(r => ({ ...r, synthetic_batch: batch })));
+  } else {
+    const sql = `INSERT INTO visitor_count (member_id, member_name, institution, room_code, checkin_date, synthetic_batch) VALUES ?`;
+    await pool.query(sql, [rows.map(r => [r.member_id, r.member_name, r.institution, r.room_code, r.checkin_date, batch])]);
+  }
+  if (!syntheticRowsVisible()) return;
+  const today = formatDay(new Date());
+  const todays = rows.filter(r => formatDay(r.checkin_date) === today);
+  if (!todays.length) return;
+  await incrementTodayCount(todays.length);
+  for (const r of todays) await recordUniqueVisitor(r.member_id);
+}
@@ -0,0 +1,73 @@
+// Catalogue search SQL for biblio b. Authors and subjects live in the SLiMS link tables
+// (biblio_author -> mst_author, biblio_topic -> mst_topic); their matches are collected once per
+// query in derived tables and joined on biblio_id, so the WHERE clause and the score share them.
+
+export const BOOK_SEARCH_FIELDS = ['all', 'title', 'author', 'isbn', 'subject'] as const;
+export type BookSearchField = typeof BOOK_SEARCH_FIELDS[number];
+
+// Relevance weights: exact / leading title matches first, then authors, subjects last
+export const SEARCH_WEIGHTS = { title_exact: 100, isbn: 100, title_prefix: 50, title_phrase: 20, title_words: 10, author: 15, subject: 5 };
+export const MAX_SEARCH_WORDS = 5;
+
+export interface SearchTerms {
+  joins: string;  // LEFT JOINs to append after FROM biblio b
+  where: string;
+  score: string;
+  replacements: Record<string, unknown>;
+}
+
+// Escapes LIKE wildcards so user input is matched literally
+export function likeEscape(value: string): string {
+  return value.replace(/[\\%_]/g, m => `\\${m}`);
+}
+
+// q as an ISBN / ISSN prefix (spaces and dashes dropped); null when there is no digit to match on
+export function isbnTerm(q: string): string | null {
+  const isbn = q.replace(/[\s-]/g, '');
+  return /[0-9]/.test(isbn) ? isbn : null;
+}
+
+// field=isbn without an ISBN term matches nothing (the route rejects it with 400 first)
+export function searchTerms(q: string, field: BookSearchField): SearchTerms {
+  const phrase = q.trim().replace(/\s+/g, ' ');
+  const words = phrase.split(' ').filter(w => w.length >= 2).slice(0, MAX_SEARCH_WORDS);
+  const isbn = isbnTerm(phrase);
+  const replacements: Record<string, unknown> = {
+    exact: phrase,
+    prefix: `${likeEscape(phrase)}%`,
+    phrase: `%${likeEscape(phrase)}%`
+  };
+  words.forEach((w, i) => { replacements[`w${i}`] = `%${likeEscape(w)}%`; });
+  const titleWords = words.length ? words.map((_, i) => `b.title LIKE :w${i}`).join(' AND ') : 'b.title LIKE :phrase';
+  const isbnMatch = `REPLACE(REPLACE(b.isbn_issn, '-', ''), ' ', '') LIKE :isbn`;
+
+  const joins: string[] = [];
+  const conditions: string[] = [];
+  const scores: string[] = [];
+  if (field === 'all' || field === 'title') {
+    conditions.push(`(${titleWords})`);
+    scores.push(
+      `IF(b.title = :exact, ${SEARCH_WEIGHTS.title_exact}, 0)`,
+      `IF(b.title LIKE :prefix, ${SEARCH_WEIGHTS.title_prefix}, 0)`,
+      `IF(b.title LIKE :phrase, ${SEARCH_WEIGHTS.title_phrase}, 0)`,
+      `IF(${titleWords}, ${SEARCH_WEIGHTS.title_words}, 0)`
+    );
+  }
+  // Free text only looks like an ISBN / ISSN when it is mostly digits
+  if (isbn !== null && (field === 'isbn' || (field === 'all' && /^[0-9]{4,}[0-9Xx]?$/.test(isbn)))) {
+    replacements.isbn = `${likeEscape(isbn)}%`;
+    conditions.push(isbnMatch);
+    scores.push(`IF(${isbnMatch}, ${SEARCH_WEIGHTS.isbn}, 0)`);
+  }
+  if (field === 'all' || field === 'author') {
+    joins.push(`LEFT JOIN (SELECT DISTINCT ba.biblio_id FROM biblio_author ba JOIN mst_author a ON a.author_id = ba.author_id WHERE a.author_name LIKE :phrase) am ON am.biblio_id = b.biblio_id`);
+    conditions.push('am.biblio_id IS NOT NULL');
+    scores.push(`IF(am.biblio_id IS NOT NULL, ${SEARCH_WEIGHTS.author}, 0)`);
+  }
+  if (field === 'all' || field === 'subject') {
+    joins.push(`LEFT JOIN (SELECT DISTINCT bt.biblio_id FROM biblio_topic bt JOIN mst_topic t ON t.topic_id = bt.topic_id WHERE t.topic LIKE :phrase) sm ON sm.biblio_id = b.biblio_id`);
+    conditions.push('sm.biblio_id IS NOT NULL');
+    scores.push(`IF(sm.biblio_id IS NOT NULL, ${SEARCH_WEIGHTS.subject}, 0)`);
+  }
+  return { joins: joins.join('\n'), where: conditions.join(' OR ') || 'FALSE', score: scores.join(' + ') || '0', replacements };
+}
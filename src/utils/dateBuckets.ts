@@ -0,0 +1,135 @@
+import { zonedParts, zonedTime, addDays, startOfMonth, startOfYear } from './timezone.js';
+
+// Shared helpers for time-bucketed aggregates (visitor ranges, loan series, ...).
+// Dates are handled in the library timezone (LIBRARY_TZ), matching the rest of the services.
+
+export const GRANULARITIES = ['hour', 'day', 'week', 'month', 'year'] as const;
+export type Granularity = typeof GRANULARITIES[number];
+
+// Upper bound on buckets per request so a careless `granularity=hour` over years
+// does not explode the response (and the zero-fill loop).
+export const MAX_BUCKETS = 1000;
+
+export interface DateRange {
+  from: string;  // YYYY-MM-DD (inclusive)
+  to: string;    // YYYY-MM-DD (inclusive)
+  start: Date;   // library-time midnight of `from`
+  end: Date;     // library-time midnight of the day after `to` (exclusive bound)
+}
+
+export interface Bucket { bucket: string; total: number; }
+
+export function isGranularity(value: unknown): value is Granularity {
+  return typeof value === 'string' && (GRANULARITIES as readonly string[]).includes(value);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatDay(d: Date): string {
+  const p = zonedParts(d);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+// DATE columns come back as Date (mysql2) or string (Sequelize raw) depending on the path
+export function toDayString(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : formatDay(value);
+}
+
+// Parses a YYYY-MM-DD string as library-time midnight; returns null for anything else
+// (including impossible dates such as 2024-02-31).
+export function parseDay(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!m) return null;
+  const y = Number(m[1]);
+  const mo = Number(m[2]);
+  const d = Number(m[3]);
+  const date = zonedTime(y, mo - 1, d);
+  const p = zonedParts(date);
+  if (p.year !== y || p.month !== mo || p.day !== d) return null;
+  return date;
+}
+
+// Validates raw query values and returns the normalized [start, end) window.
+export function normalizeRange(fromRaw: unknown, toRaw: unknown): { range?: DateRange; error?: string } {
+  const start = parseDay(fromRaw);
+  const toDay = parseDay(toRaw);
+  if (!start || !toDay) return { error: 'from and to must be valid dates (YYYY-MM-DD)' };
+  if (toDay < start) return { error: 'to must not be before from' };
+  const end = addDays(toDay, 1);
+  return { range: { from: formatDay(start), to: formatDay(toDay), start, end } };
+}
+
+// Floors a date to the start of its bucket (weeks start on Monday).
+export function bucketStart(date: Date, granularity: Granularity): Date {
+  const p = zonedParts(date);
+  switch (granularity) {
+    case 'hour': return zonedTime(p.year, p.month - 1, p.day, p.hour);
+    case 'day': return zonedTime(p.year, p.month - 1, p.day);
+    case 'week': return zonedTime(p.year, p.month - 1, p.day - p.weekday);
+    case 'month': return zonedTime(p.year, p.month - 1, 1);
+    case 'year': return zonedTime(p.year, 0, 1);
+  }
+}
+
+function nextBucket(d: Date, granularity: Granularity): Date {
+  switch (granularity) {
+    case 'hour': {
+      const p = zonedParts(d);
+      return zonedTime(p.year, p.month - 1, p.day, p.hour + 1);
+    }
+    case 'day': return addDays(d, 1);
+    case 'week': return addDays(d, 7);
+    case 'month': return startOfMonth(d, 1);
+    case 'year': return startOfYear(d, 1);
+  }
+}
+
+// Key format must stay in sync with sqlBucketExpr below.
+export function bucketKey(date: Date, granularity: Granularity): string {
+  const p = zonedParts(bucketStart(date, granularity));
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  switch (granularity) {
+    case 'hour': return `${day} ${pad(p.hour)}:00`;
+    case 'day':
+    case 'week': return day;
+    case 'month': return `${p.year}-${pad(p.month)}`;
+    case 'year': return String(p.year);
+  }
+}
+
+export function countBuckets(start: Date, end: Date, granularity: Granularity): number {
+  let n = 0;
+  for (let d = bucketStart(start, granularity); d < end; d = nextBucket(d, granularity)) {
+    n++;
+    if (n > MAX_BUCKETS) break;
+  }
+  return n;
+}
+
+export function enumerateBucketKeys(start: Date, end: Date, granularity: Granularity): string[] {
+  const keys: string[] = [];
+  for (let d = bucketStart(start, granularity); d < end; d = nextBucket(d, granularity)) {
+    keys.push(bucketKey(d, granularity));
+  }
+  return keys;
+}
+
+// MySQL expression producing the same bucket key as bucketKey() for a DATETIME column
+// (stored as library wall-clock time, so no conversion is needed on the SQL side).
+export function sqlBucketExpr(column: string, granularity: Granularity): string {
+  switch (granularity) {
+    case 'hour': return `DATE_FORMAT(${column}, '%Y-%m-%d %H:00')`;
+    case 'day': return `DATE_FORMAT(${column}, '%Y-%m-%d')`;
+    case 'week': return `DATE_FORMAT(DATE_SUB(DATE(${column}), INTERVAL WEEKDAY(${column}) DAY), '%Y-%m-%d')`;
+    case 'month': return `DATE_FORMAT(${column}, '%Y-%m')`;
+    case 'year': return `DATE_FORMAT(${column}, '%Y')`;
+  }
+}
+
+// Merges sparse DB rows into the full ordered list of buckets, filling gaps with 0.
+export function zeroFill(start: Date, end: Date, granularity: Granularity, rows: Array<{ bucket: string; total: number }>): Bucket[] {
+  const byKey = new Map<string, number>();
+  for (const r of rows) byKey.set(String(r.bucket), Number(r.total));
+  return enumerateBucketKeys(start, end, granularity).map(bucket => ({ bucket, total: byKey.get(bucket) || 0 }));
+}
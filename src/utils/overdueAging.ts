@@ -0,0 +1,16 @@
+// Aging buckets for overdue loans, in days past due_date. The ranges are contiguous and do not
+// overlap (a loan 30 days overdue is only in 8-30), so every overdue loan lands in one bucket.
+export const OVERDUE_AGING = [
+  { label: '1-7', min_days: 1, max_days: 7 },
+  { label: '8-30', min_days: 8, max_days: 30 },
+  { label: '31+', min_days: 31, max_days: null }
+] as const;
+
+export type OverdueAgingRange = typeof OVERDUE_AGING[number];
+
+// SQL condition for one bucket; daysExpr evaluates to the number of days overdue
+export function agingSql(daysExpr: string, bucket: OverdueAgingRange): string {
+  return bucket.max_days === null
+    ? `${daysExpr} >= ${bucket.min_days}`
+    : `${daysExpr} BETWEEN ${bucket.min_days} AND ${bucket.max_days}`;
+}
@@ -0,0 +1,96 @@
+import { zonedParts, zonedTime } from './timezone.js';
+
+// Period-over-period helpers shared by the visitor and book comparison endpoints.
+//  - previous  : the window immediately before (same length in days / months / years)
+//  - last_year : the same window one year earlier
+// Current periods are still running, so the comparison window is cut at the same elapsed
+// time (e.g. today until 10:30 vs yesterday until 10:30) to keep the delta meaningful.
+
+export const COMPARE_MODES = ['previous', 'last_year'] as const;
+export type CompareMode = typeof COMPARE_MODES[number];
+
+export type PeriodUnit = 'day' | 'month' | 'year';
+
+export interface PeriodWindow { start: Date; end: Date; }
+
+export interface Delta {
+  current: number;
+  previous: number;
+  delta: number;
+  delta_pct: number | null; // null when the previous value is 0
+}
+
+export function isCompareMode(value: unknown): value is CompareMode {
+  return typeof value === 'string' && (COMPARE_MODES as readonly string[]).includes(value);
+}
+
+export function delta(current: number, previous: number): Delta {
+  const diff = current - previous;
+  return {
+    current,
+    previous,
+    delta: diff,
+    delta_pct: previous === 0 ? null : Math.round((diff / previous) * 10000) / 100
+  };
+}
+
+// Same wall-clock time `count` units earlier in the library timezone
+function shiftBack(date: Date, unit: PeriodUnit, count: number): Date {
+  const p = zonedParts(date);
+  switch (unit) {
+    case 'day': return zonedTime(p.year, p.month - 1, p.day - count, p.hour, p.minute, p.second);
+    case 'month': return zonedTime(p.year, p.month - 1 - count, p.day, p.hour, p.minute, p.second);
+    case 'year': return zonedTime(p.year - count, p.month - 1, p.day, p.hour, p.minute, p.second);
+  }
+}
+
+// `current` spans `count` units of `unit` (e.g. 7 days, 12 months) and may still be running.
+// Returns the comparison window plus its full (untruncated) end, used to enumerate buckets.
+export function comparisonWindow(current: PeriodWindow, mode: CompareMode, unit: PeriodUnit, count: number, now = new Date()): PeriodWindow & { fullEnd: Date } {
+  const start = mode === 'last_year' ? shiftBack(current.start, 'year', 1) : shiftBack(current.start, unit, count);
+  const fullEnd = mode === 'last_year' ? shiftBack(current.end, 'year', 1) : shiftBack(current.end, unit, count);
+  const elapsed = Math.min(now.getTime(), current.end.getTime()) - current.start.getTime();
+  const end = new Date(Math.min(start.getTime() + elapsed, fullEnd.getTime()));
+  return { start, end, fullEnd };
+}
+
+export function windowJSON(w: PeriodWindow) {
+  return { start: w.start.toISOString(), end: w.end.toISOString() };
+}
+
+// JSON schema fragments for routes exposing `?compare=`
+export const compareQuerySchema = {
+  type: 'object',
+  properties: {
+    compare: { type: 'string', enum: [...COMPARE_MODES], description: 'Add a comparison block: previous period or same period last year' }
+  }
+};
+
+export const deltaSchema = {
+  type: 'object',
+  properties: {
+    current: { type: 'number' },
+    previous: { type: 'number' },
+    delta: { type: 'number' },
+    delta_pct: { type: ['number', 'null'] }
+  }
+};
+
+export const windowSchema = {
+  type: 'object',
+  properties: { start: { type: 'string' }, end: { type: 'string' } }
+};
+
+// Base properties of every comparison block; `extra` adds the endpoint-specific parts
+export function compareBlockSchema(extra: Record<string, unknown>) {
+  return {
+    type: 'object',
+    properties: {
+      mode: { type: 'string' },
+      current: windowSchema,
+      previous: windowSchema,
+      generated_at: { type: 'string' },
+      ...extra
+    }
+  };
+}
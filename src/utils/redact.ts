@@ -0,0 +1,22 @@
+// Query parameters that carry credentials (WebSocket clients send the access token as ?token=)
+const SECRET_PARAMS = ['token', 'access_token'];
+
+// Replaces the values of credential query parameters so URLs can be logged
+export function redactUrl(url: string): string {
+  const q = url.indexOf('?');
+  if (q < 0) return url;
+  const query = url.slice(q + 1).split('&').map(pair => {
+    const eq = pair.indexOf('=');
+    const name = decodeURIComponentSafe(eq < 0 ? pair : pair.slice(0, eq));
+    return eq >= 0 && SECRET_PARAMS.includes(name) ? `${pair.slice(0, eq)}=[REDACTED]` : pair;
+  });
+  return `${url.slice(0, q)}?${query.join('&')}`;
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,57 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+const HEARTBEAT_MS = 15000;
+const RETRY_MS = 3000;
+
+export interface SseConnection {
+  send(event: string, data: unknown, id?: number): void;
+  onClose(fn: () => void): void;
+}
+
+// Switches the reply to text/event-stream with a heartbeat; callers register cleanup via onClose
+export function openSse(req: FastifyRequest, reply: FastifyReply): SseConnection {
+  reply.raw.setHeader('Content-Type', 'text/event-stream');
+  reply.raw.setHeader('Cache-Control', 'no-cache, no-transform');
+  reply.raw.setHeader('Connection', 'keep-alive');
+  // For proxies disable buffering
+  reply.raw.setHeader('X-Accel-Buffering', 'no');
+  reply.raw.flushHeaders && reply.raw.flushHeaders();
+  // reconnect delay used by EventSource
+  reply.raw.write(`retry: ${RETRY_MS}\n\n`);
+
+  // Comment lines with colon are ignored by SSE clients
+  const heartbeat = setInterval(() => {
+    reply.raw.write(': keepalive\n\n');
+  }, HEARTBEAT_MS);
+  const closers: Array<() => void> = [() => clearInterval(heartbeat)];
+  let closed = false;
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    for (const fn of closers) fn();
+  };
+  req.raw.on('close', cleanup);
+  req.raw.on('end', cleanup);
+
+  return {
+    send(event, data, id) {
+      if (closed) return;
+      if (id !== undefined) reply.raw.write(`id: ${id}\n`);
+      reply.raw.write(`event: ${event}\n`);
+      reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
+    },
+    // Routes register listeners after awaiting their snapshot; if the client is already gone
+    // by then, the cleanup runs right away instead of leaking the listener
+    onClose(fn) {
+      if (closed) fn();
+      else closers.push(fn);
+    }
+  };
+}
+
+// Last-Event-ID header (EventSource reconnect) or ?last_event_id= (fresh page load)
+export function lastEventId(req: FastifyRequest): number | null {
+  const raw = req.headers['last-event-id'] ?? (req.query as any)?.last_event_id;
+  const id = Number(Array.isArray(raw) ? raw[0] : raw);
+  return raw !== undefined && raw !== '' && Number.isInteger(id) && id >= 0 ? id : null;
+}
@@ -0,0 +1,128 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Library timezone: every "today / this month / this year" window, every bucket key and
+// every cron schedule is evaluated in this zone, independent of the server's TZ.
+// SLiMS stores visitor_count.checkin_date / loan.loan_date as wall-clock values in this zone,
+// so the MySQL drivers are configured with its UTC offset (see sqlTimezoneOffset).
+
+export const LIBRARY_TZ = process.env.LIBRARY_TZ || 'Asia/Jakarta';
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Monday .. 6 = Sunday (same as MySQL WEEKDAY())
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: LIBRARY_TZ,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  weekday: 'short'
+});
+
+// Wall-clock fields of an instant in the library timezone.
+export function zonedParts(date: Date = new Date()): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of formatter.formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday || '')
+  };
+}
+
+// Minutes ahead of UTC at the given instant (Asia/Jakarta -> 420).
+export function tzOffsetMinutes(date: Date = new Date()): number {
+  const p = zonedParts(date);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Instant of a wall-clock time in the library timezone. Like the Date constructor,
+// out-of-range fields roll over (month 12 -> January next year, day 0 -> last day of previous month).
+export function zonedTime(year: number, monthIndex: number, day = 1, hour = 0, minute = 0, second = 0): Date {
+  const guess = Date.UTC(year, monthIndex, day, hour, minute, second);
+  let result = guess - tzOffsetMinutes(new Date(guess)) * 60000;
+  // Second pass settles the offset when the guess falls on the other side of a DST switch
+  result = guess - tzOffsetMinutes(new Date(result)) * 60000;
+  return new Date(result);
+}
+
+export function startOfDay(date: Date = new Date()): Date {
+  const p = zonedParts(date);
+  return zonedTime(p.year, p.month - 1, p.day);
+}
+
+// Same wall-clock time `days` days later (negative for earlier)
+export function addDays(date: Date, days: number): Date {
+  const p = zonedParts(date);
+  return zonedTime(p.year, p.month - 1, p.day + days, p.hour, p.minute, p.second);
+}
+
+// First instant of the month, `offset` months away from the month containing `date`
+export function startOfMonth(date: Date = new Date(), offset = 0): Date {
+  const p = zonedParts(date);
+  return zonedTime(p.year, p.month - 1 + offset, 1);
+}
+
+export function startOfYear(date: Date = new Date(), offset = 0): Date {
+  return zonedTime(zonedParts(date).year + offset, 0, 1);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatMonth(date: Date = new Date()): string {
+  const p = zonedParts(date);
+  return `${p.year}-${pad(p.month)}`;
+}
+
+export function formatTime(date: Date = new Date()): string {
+  const p = zonedParts(date);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+export function currentYear(date: Date = new Date()): number {
+  return zonedParts(date).year;
+}
+
+// Calendar month / year window in library time. `key` selects a specific month / year
+// (YYYY-MM / YYYY); default is the current one.
+export function periodWindow(period: 'month' | 'year', key?: string): { key: string; start: Date; end: Date } {
+  if (period === 'month') {
+    let start = startOfMonth();
+    if (key) {
+      const [y, m] = key.split('-').map(Number);
+      if (y && m) start = zonedTime(y, m - 1, 1);
+    }
+    return { key: formatMonth(start), start, end: startOfMonth(start, 1) };
+  }
+  const start = key ? zonedTime(Number(key), 0, 1) : startOfYear();
+  return { key: String(currentYear(start)), start, end: startOfYear(start, 1) };
+}
+
+// '+07:00' style offset for mysql2 / Sequelize `timezone` options. The drivers take a fixed
+// offset, evaluated once when the pool is created: fine for the Indonesian zones (no DST), but
+// a LIBRARY_TZ with DST needs a restart after each switch or SQL date windows shift by an hour.
+export function sqlTimezoneOffset(date: Date = new Date()): string {
+  const offset = tzOffsetMinutes(date);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_SEARCH_WORDS, isbnTerm, likeEscape, searchTerms } from '../src/utils/bookSearch.js';
+
+const count = (text: string, part: string) => text.split(part).length - 1;
+
+test('likeEscape matches wildcards literally', () => {
+  assert.equal(likeEscape('100%_a\\b'), '100\\%\\_a\\\\b');
+});
+
+test('phrase, prefix and word replacements', () => {
+  const { replacements, where } = searchTerms('  data   mining a  ', 'title');
+  assert.equal(replacements.exact, 'data mining a');
+  assert.equal(replacements.prefix, 'data mining a%');
+  assert.equal(replacements.phrase, '%data mining a%');
+  // Words shorter than 2 characters are ignored
+  assert.equal(replacements.w0, '%data%');
+  assert.equal(replacements.w1, '%mining%');
+  assert.equal(replacements.w2, undefined);
+  assert.equal(where, '(b.title LIKE :w0 AND b.title LIKE :w1)');
+  const many = searchTerms('a1 b2 c3 d4 e5 f6 g7', 'title').replacements;
+  assert.equal(Object.keys(many).filter(k => /^w\d+$/.test(k)).length, MAX_SEARCH_WORDS);
+});
+
+test('field selects the conditions', () => {
+  const title = searchTerms('kimia', 'title');
+  assert.equal(title.joins, '');
+  assert.ok(!title.where.includes('isbn'));
+  const author = searchTerms('kimia', 'author');
+  assert.equal(author.where, 'am.biblio_id IS NOT NULL');
+  assert.ok(!author.joins.includes('biblio_topic'));
+  const subject = searchTerms('kimia', 'subject');
+  assert.equal(subject.where, 'sm.biblio_id IS NOT NULL');
+  assert.ok(!subject.joins.includes('biblio_author'));
+  assert.ok(searchTerms('978-602', 'isbn').where.includes('LIKE :isbn'));
+});
+
+test('free text is only matched as an ISBN when it looks like one', () => {
+  assert.ok(!searchTerms('kimia dasar', 'all').where.includes(':isbn'));
+  const isbn = searchTerms('978-602 1234-5X', 'all');
+  assert.ok(isbn.where.includes(':isbn'));
+  assert.equal(isbn.replacements.isbn, '97860212345X%');
+});
+
+test('an ISBN search without digits matches nothing', () => {
+  assert.equal(isbnTerm('978-602 1234'), '9786021234');
+  assert.equal(isbnTerm(' - - '), null);
+  assert.equal(isbnTerm('abc'), null);
+  const none = searchTerms('- -', 'isbn');
+  assert.equal(none.where, 'FALSE');
+  assert.equal(none.score, '0');
+  assert.equal(none.replacements.isbn, undefined);
+  // With other fields the text is still searched, just not as an ISBN
+  assert.ok(!searchTerms('--', 'all').where.includes(':isbn'));
+});
+
+test('author and subject lookups run once per query, shared by WHERE and score', () => {
+  const { joins, where, score } = searchTerms('kimia', 'all');
+  assert.equal(count(joins, 'biblio_author'), 1);
+  assert.equal(count(joins, 'biblio_topic'), 1);
+  for (const sql of [where, score]) {
+    assert.ok(!sql.includes('EXISTS'));
+    assert.ok(!sql.includes('SELECT'));
+    assert.ok(sql.includes('am.biblio_id IS NOT NULL'));
+    assert.ok(sql.includes('sm.biblio_id IS NOT NULL'));
+  }
+});
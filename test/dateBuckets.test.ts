@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.LIBRARY_TZ = 'Asia/Jakarta';
+process.env.TZ = 'UTC';
+const { zonedTime } = await import('../src/utils/timezone.js');
+const db = await import('../src/utils/dateBuckets.js');
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+test('parseDay accepts real calendar days only', () => {
+  assert.deepEqual(db.parseDay('2024-02-29'), utc('2024-02-28T17:00:00'));
+  assert.deepEqual(db.parseDay(' 2024-01-01 '), zonedTime(2024, 0, 1));
+  assert.equal(db.parseDay('2023-02-29'), null);
+  assert.equal(db.parseDay('2024-02-31'), null);
+  assert.equal(db.parseDay('2024-1-01'), null);
+  assert.equal(db.parseDay('2024-01-01T00:00'), null);
+  assert.equal(db.parseDay(20240101), null);
+  assert.equal(db.parseDay(undefined), null);
+});
+
+test('formatDay / toDayString use the library date', () => {
+  assert.equal(db.formatDay(utc('2024-03-10T16:59:59')), '2024-03-10');
+  assert.equal(db.formatDay(utc('2024-03-10T17:00:00')), '2024-03-11');
+  assert.equal(db.toDayString('2024-03-11 08:00:00'), '2024-03-11');
+  assert.equal(db.toDayString(utc('2024-03-10T18:00:00')), '2024-03-11');
+});
+
+test('normalizeRange returns an inclusive-exclusive window', () => {
+  const { range } = db.normalizeRange('2024-01-30', '2024-02-02');
+  assert.ok(range);
+  assert.equal(range.from, '2024-01-30');
+  assert.equal(range.to, '2024-02-02');
+  assert.deepEqual(range.start, utc('2024-01-29T17:00:00'));
+  assert.deepEqual(range.end, utc('2024-02-02T17:00:00'));
+  assert.equal(db.normalizeRange('2024-02-02', '2024-01-30').error, 'to must not be before from');
+  assert.ok(db.normalizeRange('2024-01-30', undefined).error);
+  assert.ok(db.normalizeRange('2024-13-01', '2024-12-01').error);
+});
+
+test('bucketKey around library midnight', () => {
+  const before = utc('2024-03-10T16:59:59'); // Sunday 23:59:59
+  const after = utc('2024-03-10T17:00:00');  // Monday 00:00
+  assert.equal(db.bucketKey(before, 'hour'), '2024-03-10 23:00');
+  assert.equal(db.bucketKey(after, 'hour'), '2024-03-11 00:00');
+  assert.equal(db.bucketKey(before, 'day'), '2024-03-10');
+  assert.equal(db.bucketKey(after, 'day'), '2024-03-11');
+  // Weeks start on Monday: Sunday belongs to the previous week
+  assert.equal(db.bucketKey(before, 'week'), '2024-03-04');
+  assert.equal(db.bucketKey(after, 'week'), '2024-03-11');
+  assert.equal(db.bucketKey(utc('2023-12-31T17:00:00'), 'month'), '2024-01');
+  assert.equal(db.bucketKey(utc('2023-12-31T16:59:59'), 'year'), '2023');
+});
+
+test('bucketStart floors to the bucket', () => {
+  const t = zonedTime(2024, 2, 13, 15, 45); // Wednesday
+  assert.deepEqual(db.bucketStart(t, 'hour'), zonedTime(2024, 2, 13, 15));
+  assert.deepEqual(db.bucketStart(t, 'day'), zonedTime(2024, 2, 13));
+  assert.deepEqual(db.bucketStart(t, 'week'), zonedTime(2024, 2, 11));
+  assert.deepEqual(db.bucketStart(t, 'month'), zonedTime(2024, 2, 1));
+  assert.deepEqual(db.bucketStart(t, 'year'), zonedTime(2024, 0, 1));
+  // Week crossing a year end
+  assert.deepEqual(db.bucketStart(zonedTime(2025, 0, 2), 'week'), zonedTime(2024, 11, 30));
+});
+
+test('enumerateBucketKeys / countBuckets cover partial buckets at both ends', () => {
+  const { range } = db.normalizeRange('2024-12-28', '2025-01-07');
+  assert.ok(range);
+  assert.deepEqual(db.enumerateBucketKeys(range.start, range.end, 'week'), ['2024-12-23', '2024-12-30', '2025-01-06']);
+  assert.deepEqual(db.enumerateBucketKeys(range.start, range.end, 'month'), ['2024-12', '2025-01']);
+  assert.equal(db.countBuckets(range.start, range.end, 'day'), 11);
+  assert.equal(db.countBuckets(range.start, range.end, 'hour'), 11 * 24);
+  const oneDay = db.normalizeRange('2024-03-10', '2024-03-10').range!;
+  assert.deepEqual(db.enumerateBucketKeys(oneDay.start, oneDay.end, 'hour').slice(-2), ['2024-03-10 22:00', '2024-03-10 23:00']);
+});
+
+test('countBuckets stops just past MAX_BUCKETS', () => {
+  const { range } = db.normalizeRange('2000-01-01', '2024-12-31');
+  assert.ok(range);
+  assert.equal(db.countBuckets(range.start, range.end, 'day'), db.MAX_BUCKETS + 1);
+  assert.equal(db.countBuckets(range.start, range.end, 'year'), 25);
+});
+
+test('zeroFill keeps the bucket order and fills gaps', () => {
+  const { range } = db.normalizeRange('2024-01-01', '2024-01-03');
+  assert.ok(range);
+  assert.deepEqual(db.zeroFill(range.start, range.end, 'day', [{ bucket: '2024-01-03', total: 4 }, { bucket: '2024-01-01', total: 2 }]), [
+    { bucket: '2024-01-01', total: 2 },
+    { bucket: '2024-01-02', total: 0 },
+    { bucket: '2024-01-03', total: 4 }
+  ]);
+});
+
+test('sqlBucketExpr matches the bucketKey formats', () => {
+  assert.equal(db.sqlBucketExpr('c', 'hour'), `DATE_FORMAT(c, '%Y-%m-%d %H:00')`);
+  assert.equal(db.sqlBucketExpr('c', 'day'), `DATE_FORMAT(c, '%Y-%m-%d')`);
+  // MySQL WEEKDAY(): 0 = Monday, same convention as zonedParts().weekday
+  assert.equal(db.sqlBucketExpr('c', 'week'), `DATE_FORMAT(DATE_SUB(DATE(c), INTERVAL WEEKDAY(c) DAY), '%Y-%m-%d')`);
+  assert.equal(db.sqlBucketExpr('c', 'month'), `DATE_FORMAT(c, '%Y-%m')`);
+  assert.equal(db.sqlBucketExpr('c', 'year'), `DATE_FORMAT(c, '%Y')`);
+});
+
+test('isGranularity', () => {
+  assert.ok(db.isGranularity('week'));
+  assert.ok(!db.isGranularity('quarter'));
+  assert.ok(!db.isGranularity(undefined));
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OVERDUE_AGING, agingSql } from '../src/utils/overdueAging.js';
+
+const contains = (b: typeof OVERDUE_AGING[number], days: number) => days >= b.min_days && (b.max_days === null || days <= b.max_days);
+
+test('every overdue day count falls in exactly one bucket', () => {
+  for (const days of [1, 7, 8, 30, 31, 365, 5000]) {
+    assert.equal(OVERDUE_AGING.filter(b => contains(b, days)).length, 1, `${days} days`);
+  }
+  assert.equal(OVERDUE_AGING.filter(b => contains(b, 0)).length, 0);
+  assert.equal(OVERDUE_AGING[0].min_days, 1);
+  OVERDUE_AGING.slice(1).forEach((b, i) => assert.equal(b.min_days, OVERDUE_AGING[i]!.max_days! + 1));
+  assert.equal(OVERDUE_AGING.at(-1)!.max_days, null);
+});
+
+test('labels spell out the bucket ranges', () => {
+  for (const b of OVERDUE_AGING) {
+    assert.equal(b.label, b.max_days === null ? `${b.min_days}+` : `${b.min_days}-${b.max_days}`);
+  }
+});
+
+test('agingSql uses inclusive bounds and an open end', () => {
+  assert.deepEqual(OVERDUE_AGING.map(b => agingSql('d', b)), ['d BETWEEN 1 AND 7', 'd BETWEEN 8 AND 30', 'd >= 31']);
+});
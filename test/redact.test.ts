@@ -0,0 +1,12 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactUrl } from '../src/utils/redact.js';
+
+test('redactUrl hides token values and keeps the rest of the URL', () => {
+  assert.equal(redactUrl('/api/ws?token=eyJhbGciOi.x.y&topics=books.today'), '/api/ws?token=[REDACTED]&topics=books.today');
+  assert.equal(redactUrl('/api/ws?topics=a,b&access_token=abc'), '/api/ws?topics=a,b&access_token=[REDACTED]');
+  assert.equal(redactUrl('/api/ws?%74oken=abc'), '/api/ws?%74oken=[REDACTED]');
+  assert.equal(redactUrl('/api/ws?tokens=abc&token'), '/api/ws?tokens=abc&token');
+  assert.equal(redactUrl('/api/books/search?q=token'), '/api/books/search?q=token');
+  assert.equal(redactUrl('/health'), '/health');
+});
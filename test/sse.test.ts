@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { lastEventId, openSse } from '../src/utils/sse.js';
+
+function fakeConnection() {
+  const raw = new EventEmitter();
+  const written: string[] = [];
+  const reply = { raw: { setHeader() {}, flushHeaders() {}, write: (chunk: string) => written.push(chunk) } };
+  return { req: { raw } as unknown as FastifyRequest, reply: reply as unknown as FastifyReply, raw, written };
+}
+
+test('onClose runs registered cleanups once when the client disconnects', () => {
+  const { req, reply, raw } = fakeConnection();
+  const sse = openSse(req, reply);
+  let calls = 0;
+  sse.onClose(() => calls++);
+  raw.emit('close');
+  raw.emit('end');
+  assert.equal(calls, 1);
+});
+
+test('onClose after the disconnect runs the cleanup immediately', () => {
+  const { req, reply, raw } = fakeConnection();
+  const sse = openSse(req, reply);
+  raw.emit('close'); // client left while the route was awaiting its snapshot
+  let calls = 0;
+  sse.onClose(() => calls++);
+  assert.equal(calls, 1);
+});
+
+test('send writes id / event / data and stops after close', () => {
+  const { req, reply, raw, written } = fakeConnection();
+  const sse = openSse(req, reply);
+  sse.send('books.today', { loans_today: 3 }, 42);
+  assert.deepEqual(written.slice(-3), ['id: 42\n', 'event: books.today\n', 'data: {"loans_today":3}\n\n']);
+  raw.emit('close');
+  const before = written.length;
+  sse.send('books.today', { loans_today: 4 }, 43);
+  assert.equal(written.length, before);
+});
+
+test('lastEventId reads the header first, then ?last_event_id=', () => {
+  const req = (headers: Record<string, string>, query: Record<string, string> = {}) => ({ headers, query }) as unknown as FastifyRequest;
+  assert.equal(lastEventId(req({ 'last-event-id': '17' }, { last_event_id: '3' })), 17);
+  assert.equal(lastEventId(req({}, { last_event_id: '3' })), 3);
+  assert.equal(lastEventId(req({}, { last_event_id: '' })), null);
+  assert.equal(lastEventId(req({ 'last-event-id': 'abc' })), null);
+  assert.equal(lastEventId(req({ 'last-event-id': '-1' })), null);
+  assert.equal(lastEventId(req({})), null);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// A LIBRARY_TZ with DST (Europe/Berlin: +01:00 / +02:00, switches on 2024-03-31 and 2024-10-27).
+// Node runs every test file in its own process, so this does not leak into the other files.
+process.env.LIBRARY_TZ = 'Europe/Berlin';
+process.env.TZ = 'UTC';
+const tz = await import('../src/utils/timezone.js');
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+test('offset follows DST', () => {
+  assert.equal(tz.tzOffsetMinutes(utc('2024-01-15T12:00:00')), 60);
+  assert.equal(tz.tzOffsetMinutes(utc('2024-07-15T12:00:00')), 120);
+  // The pool offset is a snapshot: it differs between winter and summer (see sqlTimezoneOffset)
+  assert.equal(tz.sqlTimezoneOffset(utc('2024-01-15T12:00:00')), '+01:00');
+  assert.equal(tz.sqlTimezoneOffset(utc('2024-07-15T12:00:00')), '+02:00');
+});
+
+test('zonedTime settles the offset on the day of the switch', () => {
+  assert.deepEqual(tz.zonedTime(2024, 2, 31), utc('2024-03-30T23:00:00'));
+  assert.deepEqual(tz.zonedTime(2024, 2, 31, 3), utc('2024-03-31T01:00:00'));
+  assert.deepEqual(tz.zonedTime(2024, 9, 27), utc('2024-10-26T22:00:00'));
+  assert.deepEqual(tz.zonedTime(2024, 9, 28), utc('2024-10-27T23:00:00'));
+});
+
+test('days around a switch are 23 / 25 hours long and start at local midnight', () => {
+  const HOUR = 3600 * 1000;
+  const spring = tz.zonedTime(2024, 2, 31);
+  assert.equal(tz.addDays(spring, 1).getTime() - spring.getTime(), 23 * HOUR);
+  const autumn = tz.zonedTime(2024, 9, 27);
+  assert.equal(tz.addDays(autumn, 1).getTime() - autumn.getTime(), 25 * HOUR);
+  assert.deepEqual(tz.startOfDay(utc('2024-03-31T12:00:00')), spring);
+  assert.equal(tz.zonedParts(tz.addDays(autumn, 1)).hour, 0);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Library time is Asia/Jakarta (UTC+7, no DST); the process runs in another zone on purpose
+// so nothing can silently depend on the server TZ.
+process.env.LIBRARY_TZ = 'Asia/Jakarta';
+process.env.TZ = 'America/Los_Angeles';
+const tz = await import('../src/utils/timezone.js');
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+test('zonedParts switches day at library midnight, not UTC midnight', () => {
+  assert.deepEqual(tz.zonedParts(utc('2024-03-10T16:59:59')), { year: 2024, month: 3, day: 10, hour: 23, minute: 59, second: 59, weekday: 6 });
+  assert.deepEqual(tz.zonedParts(utc('2024-03-10T17:00:00')), { year: 2024, month: 3, day: 11, hour: 0, minute: 0, second: 0, weekday: 0 });
+  // UTC midnight is already 07:00 in the library
+  assert.equal(tz.zonedParts(utc('2024-03-11T00:00:00')).hour, 7);
+});
+
+test('offset is +07:00 all year', () => {
+  assert.equal(tz.tzOffsetMinutes(utc('2024-01-15T12:00:00')), 420);
+  assert.equal(tz.tzOffsetMinutes(utc('2024-07-15T12:00:00')), 420);
+  assert.equal(tz.sqlTimezoneOffset(utc('2024-01-15T12:00:00')), '+07:00');
+  assert.equal(tz.sqlTimezoneOffset(utc('2024-07-15T12:00:00')), '+07:00');
+});
+
+test('startOfDay is library midnight on both sides of UTC midnight', () => {
+  assert.deepEqual(tz.startOfDay(utc('2024-03-10T17:30:00')), utc('2024-03-10T17:00:00'));
+  assert.deepEqual(tz.startOfDay(utc('2024-03-10T16:30:00')), utc('2024-03-09T17:00:00'));
+  assert.deepEqual(tz.startOfDay(utc('2024-03-11T00:00:00')), utc('2024-03-10T17:00:00'));
+});
+
+test('zonedTime rolls over out-of-range fields', () => {
+  assert.deepEqual(tz.zonedTime(2024, 0, 1), utc('2023-12-31T17:00:00'));
+  assert.deepEqual(tz.zonedTime(2024, 12, 1), tz.zonedTime(2025, 0, 1));
+  assert.deepEqual(tz.zonedTime(2024, 2, 0), tz.zonedTime(2024, 1, 29));
+  assert.deepEqual(tz.zonedTime(2024, 0, 1, 24), tz.zonedTime(2024, 0, 2));
+});
+
+test('addDays keeps the wall-clock time across month and year ends', () => {
+  assert.deepEqual(tz.addDays(tz.zonedTime(2024, 11, 31), 1), utc('2024-12-31T17:00:00'));
+  assert.deepEqual(tz.addDays(tz.zonedTime(2024, 2, 1, 8, 30), -1), tz.zonedTime(2024, 1, 29, 8, 30));
+  assert.deepEqual(tz.addDays(tz.zonedTime(2023, 1, 28, 23), 1), tz.zonedTime(2023, 2, 1, 23));
+});
+
+test('month and year windows', () => {
+  assert.deepEqual(tz.startOfMonth(tz.zonedTime(2024, 0, 15), -1), utc('2023-11-30T17:00:00'));
+  assert.deepEqual(tz.startOfMonth(utc('2024-01-31T17:30:00')), tz.zonedTime(2024, 1, 1));
+  assert.deepEqual(tz.startOfYear(utc('2023-12-31T17:00:00')), tz.zonedTime(2024, 0, 1));
+  const feb = tz.periodWindow('month', '2024-02');
+  assert.equal(feb.key, '2024-02');
+  assert.deepEqual(feb.start, utc('2024-01-31T17:00:00'));
+  assert.deepEqual(feb.end, utc('2024-02-29T17:00:00'));
+  const year = tz.periodWindow('year', '2023');
+  assert.equal(year.key, '2023');
+  assert.deepEqual(year.end, utc('2023-12-31T17:00:00'));
+});
+
+test('formatMonth / formatTime / currentYear use library time', () => {
+  const newYear = utc('2023-12-31T17:05:00');
+  assert.equal(tz.formatMonth(newYear), '2024-01');
+  assert.equal(tz.formatTime(newYear), '00:05');
+  assert.equal(tz.currentYear(newYear), 2024);
+});